@@ -2,7 +2,8 @@
  * 03 - Command Framework
  *
  * Demonstrates the full command framework: registering commands,
- * argument parsing, preconditions, aliases, and module-based grouping.
+ * argument parsing, preconditions, cooldowns, aliases, command groups,
+ * per-guild prefixes, and module-based grouping.
  *
  * Run:
  *   npx tsx examples/03-commands.ts
@@ -15,10 +16,15 @@ import {
   EmbedBuilder,
   NumberParser,
   StringParser,
+  UserParser,
   requireGuild,
+  requirePermissions,
+  cooldown,
+  isCommandGroup,
+  Permissions,
   createConsoleLogger,
 } from "../src/index.js";
-import type { CommandDefinition } from "../src/index.js";
+import type { CommandDefinition, CommandEntry, CommandGroup, User } from "../src/index.js";
 
 const TOKEN = process.env.FLUXOR_TOKEN ?? "Bot YOUR_TOKEN_HERE";
 
@@ -31,9 +37,20 @@ bot.enableGracefulShutdown();
 
 // ── Create the command service ──────────────────────────────────────────────
 
+// Per-guild settings, kept in memory for the example
+const guildPrefixes = new Map<string, string>();
+const welcomeMessages = new Map<string, string>();
+
 const commands = new CommandService({
-  prefix: "!",
+  // Each guild can pick its own prefix with `!config prefix set`
+  prefix: (message) => (message.guild_id && guildPrefixes.get(message.guild_id)) || "!",
+  // "@Bot help" works whatever the prefix is
+  mentionPrefix: () => bot.user?.id,
+  // No prefix needed in DMs
+  dmPrefixOptional: true,
   caseSensitive: false,
+  // Lets UserParser & co. resolve from the caches before calling the API
+  cache: bot.cache,
 });
 
 // ── Plain object commands ───────────────────────────────────────────────────
@@ -51,10 +68,15 @@ const say: CommandDefinition = {
   name: "say",
   summary: "Make the bot say something",
   parameters: [
-    { name: "text", type: StringParser, summary: "The text to repeat" },
+    { name: "text", type: StringParser, remainder: true, summary: "The text to repeat" },
+  ],
+  flags: [
+    { name: "upper", short: "u", summary: "Shout it" },
   ],
   execute: async (ctx, text: unknown) => {
-    await ctx.reply(text as string);
+    // !say --upper hello   world  →  "HELLO   WORLD"
+    const message = text as string;
+    await ctx.reply(ctx.flags.upper ? message.toUpperCase() : message);
   },
 };
 
@@ -62,6 +84,8 @@ const roll: CommandDefinition = {
   name: "roll",
   aliases: ["dice", "random"],
   summary: "Roll a die with N sides (default: 6)",
+  // Three rolls per user every 10 seconds
+  preconditions: [cooldown({ uses: 3, per: 10_000, scope: "user" })],
   parameters: [
     { name: "sides", type: NumberParser, optional: true, defaultValue: 6, summary: "Number of sides" },
   ],
@@ -75,33 +99,58 @@ const roll: CommandDefinition = {
 const math: CommandDefinition = {
   name: "math",
   aliases: ["calc"],
-  summary: "Add two numbers together",
+  summary: "Add numbers together",
   parameters: [
-    { name: "a", type: NumberParser, summary: "First number" },
-    { name: "b", type: NumberParser, summary: "Second number" },
+    { name: "numbers", type: NumberParser, variadic: true, summary: "Numbers to add" },
   ],
-  execute: async (ctx, a: unknown, b: unknown) => {
-    const sum = (a as number) + (b as number);
-    await ctx.reply(`${a} + ${b} = **${sum}**`);
+  execute: async (ctx, numbers: unknown) => {
+    const terms = numbers as number[];
+    const sum = terms.reduce((total, n) => total + n, 0);
+    await ctx.reply(`${terms.join(" + ")} = **${sum}**`);
   },
 };
 
+// `!help` lists everything; `!help config` lists the config group's subcommands
 const help: CommandDefinition = {
   name: "help",
   aliases: ["commands", "h"],
-  summary: "List all available commands",
-  execute: async (ctx) => {
-    const allCmds = commands.getCommands();
+  summary: "List all available commands, or a group's subcommands",
+  parameters: [{ name: "group", type: StringParser, optional: true, remainder: true }],
+  execute: async (ctx, path: unknown) => {
+    let entries: readonly CommandEntry[] = [...commands.getCommands(), ...commands.getGroups()];
+    let title = "Available Commands";
+    if (path) {
+      const group = commands.lookup(path as string);
+      if (!group || !isCommandGroup(group)) {
+        await ctx.reply(`No command group named "${path}".`);
+        return;
+      }
+      entries = group.commands;
+      title = `${ctx.prefix}${path} subcommands`;
+    }
+
     const embed = new EmbedBuilder()
-      .setTitle("Available Commands")
+      .setTitle(title)
       .setColor(0x5865f2);
 
-    for (const cmd of allCmds) {
-      const aliases = cmd.aliases?.length ? ` (aliases: ${cmd.aliases.join(", ")})` : "";
-      const params = cmd.parameters?.map((p) => p.optional ? `[${p.name}]` : `<${p.name}>`).join(" ") ?? "";
+    for (const entry of entries) {
+      const aliases = entry.aliases?.length ? ` (aliases: ${entry.aliases.join(", ")})` : "";
+      const prefix = path ? `${ctx.prefix}${path} ` : ctx.prefix;
+      if (isCommandGroup(entry)) {
+        const children = entry.commands.map((child) => child.name).join("|");
+        embed.addField(`${prefix}${entry.name} <${children}>`, (entry.summary ?? "No description") + aliases);
+        continue;
+      }
+      const params = entry.parameters
+        ?.map((p) => {
+          const name = p.variadic || p.remainder ? `${p.name}...` : p.name;
+          return p.optional ? `[${name}]` : `<${name}>`;
+        })
+        .join(" ") ?? "";
+      const flags = entry.flags?.map((f) => `[--${f.name}]`).join(" ") ?? "";
       embed.addField(
-        `!${cmd.name} ${params}`.trim(),
-        (cmd.summary ?? "No description") + aliases,
+        `${prefix}${entry.name} ${params} ${flags}`.trim(),
+        (entry.summary ?? "No description") + aliases,
       );
     }
 
@@ -119,7 +168,77 @@ const serveronly: CommandDefinition = {
   },
 };
 
-commands.addCommands(ping, say, roll, math, help, serveronly);
+// ── Command groups ──────────────────────────────────────────────────────────
+
+// `!config` shows the settings, `!config prefix set ?` changes one.
+// The group's precondition applies to every subcommand.
+const config: CommandGroup = {
+  name: "config",
+  aliases: ["cfg"],
+  summary: "View or change server settings",
+  preconditions: [requireGuild(), requirePermissions(Permissions.ManageGuild)],
+  defaultCommand: "show",
+  commands: [
+    {
+      name: "show",
+      summary: "Show the current settings",
+      execute: async (ctx) => {
+        const prefix = guildPrefixes.get(ctx.guildId!) ?? "!";
+        const welcome = welcomeMessages.get(ctx.guildId!) ?? "(none)";
+        await ctx.reply(`Prefix: ${prefix}\nWelcome message: ${welcome}`);
+      },
+    },
+    {
+      name: "prefix",
+      summary: "The command prefix",
+      commands: [
+        {
+          name: "set",
+          summary: "Set the command prefix",
+          parameters: [{ name: "prefix", type: StringParser }],
+          execute: async (ctx, prefix: unknown) => {
+            guildPrefixes.set(ctx.guildId!, prefix as string);
+            await ctx.reply(`Prefix set to \`${prefix}\`.`);
+          },
+        },
+        {
+          name: "reset",
+          summary: "Go back to the default prefix",
+          execute: async (ctx) => {
+            guildPrefixes.delete(ctx.guildId!);
+            await ctx.reply("Prefix reset to `!`.");
+          },
+        },
+      ],
+    },
+    {
+      name: "welcome",
+      summary: "The welcome message",
+      commands: [
+        {
+          name: "set",
+          summary: "Set the welcome message",
+          parameters: [{ name: "message", type: StringParser, remainder: true }],
+          execute: async (ctx, message: unknown) => {
+            welcomeMessages.set(ctx.guildId!, message as string);
+            await ctx.reply("Welcome message updated.");
+          },
+        },
+        {
+          name: "clear",
+          aliases: ["reset"],
+          summary: "Remove the welcome message",
+          execute: async (ctx) => {
+            welcomeMessages.delete(ctx.guildId!);
+            await ctx.reply("Welcome message cleared.");
+          },
+        },
+      ],
+    },
+  ],
+};
+
+commands.addCommands(ping, say, roll, math, help, serveronly, config);
 
 // ── Module-based commands ───────────────────────────────────────────────────
 
@@ -161,31 +280,26 @@ class UtilityModule extends ModuleBase {
         aliases: ["user", "whois"],
         summary: "Show info about a user",
         parameters: [
-          { name: "userId", type: StringParser, optional: true, summary: "User ID to look up" },
+          { name: "user", type: UserParser, optional: true, summary: "Mention, ID or name (default: you)" },
         ],
-        execute: async (ctx, userId: unknown) => {
-          const targetId = (userId as string | undefined) ?? ctx.user?.id;
-          if (!targetId) {
+        execute: async (ctx, target: unknown) => {
+          const user = (target as User | undefined) ?? ctx.user;
+          if (!user) {
             await this.reply("Could not determine user.");
             return;
           }
 
-          try {
-            const user = await bot.api.getUser(targetId);
-            const embed = new EmbedBuilder()
-              .setTitle(user.username)
-              .setColor(0x5865f2)
-              .addFields(
-                { name: "ID", value: user.id, inline: true },
-                { name: "Tag", value: user.tag, inline: true },
-                { name: "Bot", value: user.bot ? "Yes" : "No", inline: true },
-              )
-              .setTimestamp()
-              .build();
-            await this.reply({ embeds: [embed] });
-          } catch {
-            await this.reply("Could not find that user.");
-          }
+          const embed = new EmbedBuilder()
+            .setTitle(user.username)
+            .setColor(0x5865f2)
+            .addFields(
+              { name: "ID", value: user.id, inline: true },
+              { name: "Tag", value: user.tag, inline: true },
+              { name: "Bot", value: user.bot ? "Yes" : "No", inline: true },
+            )
+            .setTimestamp()
+            .build();
+          await this.reply({ embeds: [embed] });
         },
       },
     ];
@@ -202,19 +316,21 @@ commands.addModule(new UtilityModule());
 
 bot.on("READY", () => {
   console.log(`Logged in as ${bot.user?.username}`);
-  console.log(`Registered ${commands.getCommands().length} commands.`);
+  console.log(`Registered ${commands.getCommands().length} commands and ${commands.getGroups().length} groups.`);
 });
 
 bot.on("MESSAGE_CREATE", async (msg) => {
   if (msg.author?.bot) return;
 
-  const argPos = commands.hasPrefix(msg.content ?? "");
+  // Resolves the guild's prefix, the mention prefix and unprefixed DMs
+  const argPos = await commands.matchPrefix(msg);
   if (argPos >= 0) {
     const result = await commands.execute(msg, bot.api, bot.gateway, argPos);
     if (!result.success) {
       switch (result.error) {
         case "UNKNOWN_COMMAND":
-          // silently ignore unknown commands
+          // Tell the user about a group's subcommands; ignore other unknown commands
+          if (result.reason?.startsWith("Missing subcommand")) await bot.send(msg.channel_id, result.reason);
           break;
         case "BAD_ARG_COUNT":
           await bot.send(msg.channel_id, `Missing argument: ${result.reason}`);
@@ -225,6 +341,10 @@ bot.on("MESSAGE_CREATE", async (msg) => {
         case "UNMET_PRECONDITION":
           await bot.send(msg.channel_id, `Cannot run: ${result.reason}`);
           break;
+        case "ON_COOLDOWN":
+          // result.retryAfter has the wait in ms; the reason spells it out
+          await bot.send(msg.channel_id, result.reason ?? "Slow down!");
+          break;
         default:
           await bot.send(msg.channel_id, `Error: ${result.reason}`);
       }
@@ -1,7 +1,8 @@
 /**
  * 06 - Caches and REST API
  *
- * Demonstrates the client's built-in caches (guilds, channels, users)
+ * Demonstrates the client's built-in caches (guilds, channels, users,
+ * roles, recent messages), resolving entities from cache or API with `fetch()`,
  * and various REST API calls: fetching users, managing messages,
  * channel operations, and role management.
  *
@@ -35,6 +36,7 @@ bot.on("MESSAGE_CREATE", async (msg) => {
       `**Guilds:** ${bot.guilds.size}`,
       `**Channels:** ${bot.channels.size}`,
       `**Users:** ${bot.users.size}`,
+      `**Messages here:** ${bot.messages.get(msg.channel_id)?.size ?? 0}`,
       `**Ready:** ${bot.isReady}`,
       `**Uptime:** ${Math.floor(bot.uptime / 1000)}s`,
       `**Ping:** ${bot.ping}ms`,
@@ -110,7 +112,8 @@ bot.on("MESSAGE_CREATE", async (msg) => {
     }
 
     try {
-      const user = await bot.api.getUser(userId);
+      // Cached users are returned as-is; anyone else is fetched once and cached.
+      const user = await bot.users.fetch(userId);
       const embed = new EmbedBuilder()
         .setTitle(user.username)
         .setColor(0x5865f2)
@@ -128,6 +131,27 @@ bot.on("MESSAGE_CREATE", async (msg) => {
     }
   }
 
+  // ── Resolve a member from cache or API ────────────────────────────────
+
+  if (msg.content?.startsWith("!member ")) {
+    const userId = msg.content.slice(8).trim();
+    if (!msg.guild_id || !userId) {
+      await bot.send(msg.channel_id, "Usage (in a server): `!member <user_id>`");
+      return;
+    }
+
+    try {
+      const member = await bot.members.fetch(msg.guild_id, userId);
+      const roles = member.roles.map((id) => bot.roles.get(msg.guild_id!)?.get(id)?.name ?? id);
+      await bot.send(
+        msg.channel_id,
+        `**${member.nickname ?? member.user?.username}** joined ${member.joined_at}\nRoles: ${roles.join(", ") || "none"}`,
+      );
+    } catch {
+      await bot.send(msg.channel_id, "Could not find that member.");
+    }
+  }
+
   // ── Fetch recent messages ─────────────────────────────────────────────
 
   if (msg.content === "!recent") {
@@ -142,7 +166,7 @@ bot.on("MESSAGE_CREATE", async (msg) => {
     }
   }
 
-  // ── List guild roles from the API ─────────────────────────────────────
+  // ── List guild roles from cache ───────────────────────────────────────
 
   if (msg.content === "!roles") {
     if (!msg.guild_id) {
@@ -150,13 +174,13 @@ bot.on("MESSAGE_CREATE", async (msg) => {
       return;
     }
 
-    const guild = bot.guilds.get(msg.guild_id);
-    if (!guild?.roles?.length) {
+    const roles = [...(bot.roles.get(msg.guild_id)?.values() ?? [])];
+    if (!roles.length) {
       await bot.send(msg.channel_id, "No roles cached for this guild.");
       return;
     }
 
-    const roleList = guild.roles
+    const roleList = roles
       .sort((a, b) => b.position - a.position)
       .map((r) => {
         const colorHex = r.color ? `#${r.color.toString(16).padStart(6, "0")}` : "default";
@@ -164,7 +188,7 @@ bot.on("MESSAGE_CREATE", async (msg) => {
       })
       .join("\n");
 
-    await bot.send(msg.channel_id, `**Roles (${guild.roles.length}):**\n${roleList}`);
+    await bot.send(msg.channel_id, `**Roles (${roles.length}):**\n${roleList}`);
   }
 
   // ── Get the bot's own profile ─────────────────────────────────────────
@@ -189,7 +213,7 @@ bot.on("MESSAGE_CREATE", async (msg) => {
 
 async function main() {
   await bot.connect();
-  console.log("Cache/API bot running. Try: !cache, !guilds, !channels, !user <id>, !recent, !roles, !me");
+  console.log("Cache/API bot running. Try: !cache, !guilds, !channels, !user <id>, !member <id>, !recent, !roles, !me");
 }
 
 main().catch(console.error);
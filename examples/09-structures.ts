@@ -0,0 +1,73 @@
+/**
+ * 09 - Structures
+ *
+ * Enables `structures: true`, so events carry classes with methods:
+ * replying and reacting to messages, moderating members, and cleaning
+ * up channels without threading IDs through `bot.api`.
+ *
+ * Run:
+ *   npx tsx examples/09-structures.ts
+ */
+
+import { Client, createConsoleLogger } from "../src/index.js";
+
+const TOKEN = process.env.FLUXOR_TOKEN ?? "Bot YOUR_TOKEN_HERE";
+
+const bot = new Client(TOKEN, {
+  logger: createConsoleLogger("info"),
+  structures: true,
+});
+
+bot.enableGracefulShutdown();
+
+bot.on("GUILD_MEMBER_ADD", (member) => {
+  console.log(`${member.displayName} joined ${member.guild?.name ?? member.guild_id}`);
+});
+
+bot.on("MESSAGE_CREATE", async (msg) => {
+  if (msg.author?.bot) return;
+
+  if (msg.content === "!ping") {
+    await msg.reply(`Pong, ${msg.author}!`);
+    await msg.react("🏓");
+  }
+
+  // ── Delete the last N messages ────────────────────────────────────────
+
+  if (msg.content?.startsWith("!purge ")) {
+    const count = Number(msg.content.slice(7));
+    if (!Number.isInteger(count) || count < 1 || count > 100) {
+      await msg.reply("Usage: `!purge <1-100>`");
+      return;
+    }
+    const deleted = await msg.channel?.bulkDelete(count);
+    console.log(`Deleted ${deleted?.length ?? 0} messages`);
+  }
+
+  // ── Ban a member by ID ────────────────────────────────────────────────
+
+  if (msg.content?.startsWith("!ban ") && msg.guild) {
+    const member = await msg.guild.fetchMember(msg.content.slice(5).trim()).catch(() => undefined);
+    if (!member) {
+      await msg.reply("No such member.");
+      return;
+    }
+    await member.ban({ reason: `Banned by ${msg.author.username}` });
+    await msg.reply(`Banned ${member.displayName}.`);
+  }
+
+  // ── Recent audit log entries ──────────────────────────────────────────
+
+  if (msg.content === "!audit" && msg.guild) {
+    const entries = await msg.guild.fetchAuditLog({ limit: 5 });
+    const lines = entries.map((e) => `- action ${e.action_type} by <@${e.user_id}>`);
+    await msg.reply(lines.join("\n") || "No audit log entries.");
+  }
+});
+
+async function main() {
+  await bot.connect();
+  console.log("Structures bot running. Try: !ping, !purge <n>, !ban <user_id>, !audit");
+}
+
+main().catch(console.error);
@@ -13,10 +13,17 @@ import {
   FluxorNotFoundError,
   FluxorForbiddenError,
 } from "../errors.js";
-import { resolveConfig, type FluxorConfig } from "../config.js";
+import { EventEmitter } from "node:events";
+import { resolveConfig, resolveRetryPolicy, type FluxorConfig, type RetryPolicy } from "../config.js";
 import { validateToken } from "../util/token.js";
 import { noopLogger, type Logger } from "../util/logger.js";
-import { RateLimitManager, type BucketParams } from "../rateLimit/RateLimitManager.js";
+import { buildMultipartBody, hasFiles } from "../util/attachments.js";
+import {
+  RateLimitManager,
+  RequestPriority,
+  type BucketParams,
+  type RateLimitRoute,
+} from "../rateLimit/RateLimitManager.js";
 import { RateLimitMappings } from "../rateLimit/RateLimitMappings.js";
 import type { RateLimitConfig } from "../rateLimit/RateLimitConfig.js";
 import type {
@@ -89,6 +96,8 @@ import type {
   UpdateMemePayload,
   GetMessagesOptions,
   Relationship,
+  FileAttachment,
+  UploadedAttachment,
 } from "../types/models.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -113,6 +122,45 @@ function toQueryString(params: Record<string, string | number | undefined>): str
   return parts.length ? `?${parts.join("&")}` : "";
 }
 
+/**
+ * Read the server-reported wait from a 429 response, in ms.
+ * Prefers `retry_after` (seconds) in the JSON body, then the `Retry-After` header.
+ */
+function parseRetryAfter(headers: Headers, text: string): number {
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed.retry_after === "number") return parsed.retry_after * 1000;
+  } catch { /* ignore */ }
+  const header = Number(headers.get("retry-after"));
+  return Number.isFinite(header) && header >= 0 && headers.has("retry-after") ? header * 1000 : 1000;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Events
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Payload of the `rateLimited` event, fired each time a request receives a 429. */
+export interface RateLimitedEventData {
+  method: string;
+  route: string;
+  /** Milliseconds the client will wait (or would have waited) before retrying. */
+  retryAfter: number;
+  /** Attempt number that was rate limited (1-based). */
+  attempt: number;
+  /** Whether the request will be retried. */
+  retrying: boolean;
+}
+
+export interface ApiClientEvents {
+  rateLimited: RateLimitedEventData;
+}
+
+type Listener<T> = (payload: T) => void;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // ApiClient
 // ─────────────────────────────────────────────────────────────────────────────
@@ -124,14 +172,24 @@ export class ApiClient {
   private readonly _baseUrl: string;
   private readonly _log: Logger;
   private readonly _config: ReturnType<typeof resolveConfig>;
+  private readonly _retry: Required<RetryPolicy>;
+  private readonly _emitter = new EventEmitter();
+  private readonly _unmappedRoutes = new Set<string>();
+  private _priority: RequestPriority = RequestPriority.Normal;
 
   constructor(token: string, config?: FluxorConfig) {
     validateToken(token);
     this.token = token;
     this._config = resolveConfig(config);
+    this._retry = resolveRetryPolicy(this._config.retry);
     this._baseUrl = this._config.apiBaseUrl;
     this._log = this._config.logger ?? noopLogger;
-    this.rateLimitManager = new RateLimitManager(this._config.enableRateLimiting, this._log);
+    this.rateLimitManager = new RateLimitManager(
+      this._config.enableRateLimiting,
+      this._log,
+      this._config.rateLimitStore,
+      this._config.maxRateLimitQueueSize,
+    );
 
     this._log.info(
       `Initialised Fluxer.js ApiClient (API base ${this._baseUrl}, ` +
@@ -139,16 +197,62 @@ export class ApiClient {
     );
   }
 
+  // ── Events ──────────────────────────────────────────────────────────────
+
+  /** Subscribe to a typed API client event. */
+  on<K extends keyof ApiClientEvents>(event: K, listener: Listener<ApiClientEvents[K]>): this {
+    this._emitter.on(event, listener);
+    return this;
+  }
+
+  /** Subscribe once to a typed API client event. */
+  once<K extends keyof ApiClientEvents>(event: K, listener: Listener<ApiClientEvents[K]>): this {
+    this._emitter.once(event, listener);
+    return this;
+  }
+
+  /** Unsubscribe from a typed API client event. */
+  off<K extends keyof ApiClientEvents>(event: K, listener: Listener<ApiClientEvents[K]>): this {
+    this._emitter.off(event, listener);
+    return this;
+  }
+
+  // ── Priority ────────────────────────────────────────────────────────────
+
+  /**
+   * Returns a view of this client whose requests queue at `priority` when a
+   * bucket is saturated. The view shares state (buckets, events) with this client.
+   *
+   * @example
+   * await client.api.withPriority(RequestPriority.Low).getGuildMembers(guildId);
+   */
+  withPriority(priority: RequestPriority): ApiClient {
+    const view = Object.create(this) as ApiClient;
+    view._priority = priority;
+    return view;
+  }
+
   // ── Generic request helpers ─────────────────────────────────────────────
 
   /**
-   * Rate-limit aware wait before a request.
+   * Rate-limit aware wait before a request — passes through the global bucket
+   * (unless the route is exempt) and then the route's own bucket, queued at
+   * this client's priority.
+   * Returns the route so the response headers can be fed back to its bucket.
    */
-  private async _rl(route: string, params: BucketParams = {}): Promise<void> {
+  private async _rl(route: string, params: BucketParams = {}): Promise<RateLimitRoute | null> {
     const cfg = (RateLimitMappings as Record<string, RateLimitConfig | undefined>)[route];
-    if (!cfg) return;
+    if (!cfg) {
+      if (process.env.NODE_ENV !== "production" && !this._unmappedRoutes.has(route)) {
+        this._unmappedRoutes.add(route);
+        this._log.warn(`No rate-limit mapping for route "${route}" — only the global bucket applies.`);
+      }
+      await this.rateLimitManager.waitForRateLimit(this.rateLimitManager.getGlobalBucket(), this._priority);
+      return null;
+    }
     const bucket = this.rateLimitManager.getBucket(cfg, params);
-    await this.rateLimitManager.waitForRateLimit(bucket);
+    await this.rateLimitManager.waitForRateLimit(bucket, this._priority);
+    return { config: cfg, params };
   }
 
   /** Build an AbortSignal for the configured request timeout. */
@@ -159,13 +263,9 @@ export class ApiClient {
   /**
    * Detect status-code specific errors and throw the appropriate subclass.
    */
-  private _throwForStatus(status: number, text: string): never {
+  private _throwForStatus(status: number, text: string, headers?: Headers): never {
     if (status === 429) {
-      let retryAfter = 1000;
-      try {
-        const parsed = JSON.parse(text);
-        if (typeof parsed.retry_after === "number") retryAfter = parsed.retry_after * 1000;
-      } catch { /* ignore */ }
+      const retryAfter = parseRetryAfter(headers ?? new Headers(), text);
       throw new FluxorRateLimitError(`Rate limited`, text, retryAfter);
     }
     if (status === 404) throw new FluxorNotFoundError(`Not found`, text);
@@ -173,6 +273,77 @@ export class ApiClient {
     throw new FluxorApiError(`Fluxor returned ${status}`, status, text);
   }
 
+  /** Delay before the next attempt after a 5xx / network failure. */
+  private _backoffDelay(attempt: number): number {
+    const { backoff, baseDelay, maxDelay } = this._retry;
+    const delay =
+      backoff === "fixed" ? baseDelay : backoff === "linear" ? baseDelay * attempt : baseDelay * 2 ** (attempt - 1);
+    return Math.min(delay, maxDelay);
+  }
+
+  /**
+   * Perform a fetch, transparently retrying according to the retry policy.
+   *
+   * 429 responses are retried for any method after the server-reported
+   * `retry_after`, unless that exceeds `maxDelay`; 5xx responses and network errors only when the policy
+   * enables them and the method is considered safe to retry.
+   * The final response (or error) is returned to the caller unchanged.
+   * Every response's rate-limit headers are fed back to the route's bucket
+   * and, for a global limit, to the global bucket.
+   */
+  private async _fetch(
+    method: string,
+    route: string,
+    init: { headers: Record<string, string>; body?: string | FormData },
+    rl: RateLimitRoute | null,
+  ): Promise<Response> {
+    const url = this._baseUrl + route;
+    const { maxAttempts, retryServerErrors, retryNetworkErrors, methods, maxDelay } = this._retry;
+    const safeMethod = methods.includes(method.toUpperCase());
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < maxAttempts;
+
+      let res: Response;
+      try {
+        res = await fetch(url, { method, ...init, signal: this._timeoutSignal() });
+      } catch (err) {
+        if (!canRetry || !retryNetworkErrors || !safeMethod) throw err;
+        const delay = this._backoffDelay(attempt);
+        this._log.warn(`${method} ${route} failed (${(err as Error).message}). Retrying in ${delay}ms.`);
+        await sleep(delay);
+        continue;
+      }
+
+      // Always — a global limit reported on an unmapped route still pauses everything.
+      await this.rateLimitManager.updateFromHeaders(rl, res.headers);
+
+      if (res.status === 429) {
+        const retryAfter = parseRetryAfter(res.headers, await res.clone().text());
+        // Retrying before the server's wait is over would only earn another 429.
+        if (!canRetry || retryAfter > maxDelay) {
+          this._emitter.emit("rateLimited", { method, route, retryAfter, attempt, retrying: false });
+          return res;
+        }
+        await res.body?.cancel();
+        this._emitter.emit("rateLimited", { method, route, retryAfter, attempt, retrying: true });
+        this._log.warn(`${method} ${route} rate limited. Retrying in ${retryAfter}ms.`);
+        await sleep(retryAfter);
+        continue;
+      }
+
+      if (res.status >= 500 && canRetry && retryServerErrors && safeMethod) {
+        await res.body?.cancel();
+        const delay = this._backoffDelay(attempt);
+        this._log.warn(`${method} ${route} → ${res.status}. Retrying in ${delay}ms.`);
+        await sleep(delay);
+        continue;
+      }
+
+      return res;
+    }
+  }
+
   /**
    * Send request with body, return parsed JSON response.
    */
@@ -182,20 +353,20 @@ export class ApiClient {
     data: TSend,
     throwOnNonSuccess = false,
     authorize = true,
+    rl: RateLimitRoute | null = null,
   ): Promise<TRes> {
-    const url = this._baseUrl + route;
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (authorize) headers["Authorization"] = this.token;
 
     const body = JSON.stringify(stripUndefined(data as Record<string, unknown>));
     this._log.debug(`${method} ${route}`);
 
-    const res = await fetch(url, { method, headers, body, signal: this._timeoutSignal() });
+    const res = await this._fetch(method, route, { headers, body }, rl);
     const text = await res.text();
     this._log.debug(`${method} ${route} → ${res.status}`);
 
     if (throwOnNonSuccess && !res.ok) {
-      this._throwForStatus(res.status, text);
+      this._throwForStatus(res.status, text, res.headers);
     }
 
     return text ? (JSON.parse(text) as TRes) : (undefined as unknown as TRes);
@@ -210,24 +381,54 @@ export class ApiClient {
     data: TSend,
     throwOnNonSuccess = false,
     authorize = true,
+    rl: RateLimitRoute | null = null,
   ): Promise<number> {
-    const url = this._baseUrl + route;
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (authorize) headers["Authorization"] = this.token;
 
     const body = JSON.stringify(stripUndefined(data as Record<string, unknown>));
     this._log.debug(`${method} ${route}`);
 
-    const res = await fetch(url, { method, headers, body, signal: this._timeoutSignal() });
+    const res = await this._fetch(method, route, { headers, body }, rl);
 
     if (throwOnNonSuccess && !res.ok) {
       const text = await res.text();
-      this._throwForStatus(res.status, text);
+      this._throwForStatus(res.status, text, res.headers);
     }
 
     return res.status;
   }
 
+  /**
+   * Send a `multipart/form-data` body built from a payload with `files`,
+   * return parsed JSON response.
+   */
+  private async _requestMultipart<TRes, TSend extends { files?: FileAttachment[] }>(
+    method: string,
+    route: string,
+    data: TSend,
+    throwOnNonSuccess = false,
+    authorize = true,
+    rl: RateLimitRoute | null = null,
+  ): Promise<TRes> {
+    const headers: Record<string, string> = {};
+    if (authorize) headers["Authorization"] = this.token;
+
+    // fetch sets the multipart Content-Type (with boundary) from the FormData body.
+    const body = await buildMultipartBody(data);
+    this._log.debug(`${method} ${route} (multipart, ${data.files?.length ?? 0} file(s))`);
+
+    const res = await this._fetch(method, route, { headers, body }, rl);
+    const text = await res.text();
+    this._log.debug(`${method} ${route} → ${res.status}`);
+
+    if (throwOnNonSuccess && !res.ok) {
+      this._throwForStatus(res.status, text, res.headers);
+    }
+
+    return text ? (JSON.parse(text) as TRes) : (undefined as unknown as TRes);
+  }
+
   /**
    * No request body, return parsed JSON response.
    */
@@ -236,18 +437,18 @@ export class ApiClient {
     route: string,
     throwOnNonSuccess = false,
     authorize = true,
+    rl: RateLimitRoute | null = null,
   ): Promise<TRes> {
-    const url = this._baseUrl + route;
     const headers: Record<string, string> = {};
     if (authorize) headers["Authorization"] = this.token;
 
     this._log.debug(`${method} ${route}`);
-    const res = await fetch(url, { method, headers, signal: this._timeoutSignal() });
+    const res = await this._fetch(method, route, { headers }, rl);
     const text = await res.text();
     this._log.debug(`${method} ${route} → ${res.status}`);
 
     if (throwOnNonSuccess && !res.ok) {
-      this._throwForStatus(res.status, text);
+      this._throwForStatus(res.status, text, res.headers);
     }
 
     return text ? (JSON.parse(text) as TRes) : (undefined as unknown as TRes);
@@ -261,17 +462,17 @@ export class ApiClient {
     route: string,
     throwOnNonSuccess = false,
     authorize = true,
+    rl: RateLimitRoute | null = null,
   ): Promise<number> {
-    const url = this._baseUrl + route;
     const headers: Record<string, string> = {};
     if (authorize) headers["Authorization"] = this.token;
 
     this._log.debug(`${method} ${route}`);
-    const res = await fetch(url, { method, headers, signal: this._timeoutSignal() });
+    const res = await this._fetch(method, route, { headers }, rl);
 
     if (throwOnNonSuccess && !res.ok) {
       const text = await res.text();
-      this._throwForStatus(res.status, text);
+      this._throwForStatus(res.status, text, res.headers);
     }
 
     return res.status;
@@ -282,87 +483,93 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async login(data: LoginRequest): Promise<LoginResponse> {
-    await this._rl("auth.login");
-    return this._requestRS<LoginResponse>("POST", "/auth/login", data);
+    const rl = await this._rl("auth.login");
+    return this._requestRS<LoginResponse>("POST", "/auth/login", data, false, true, rl);
   }
 
   async register(data: RegisterPayload): Promise<number> {
-    await this._rl("auth.register");
-    return this._requestS("POST", "/auth/register", data, true, false);
+    const rl = await this._rl("auth.register");
+    return this._requestS("POST", "/auth/register", data, true, false, rl);
   }
 
   async loginMfaTotp(data: MfaTotpPayload): Promise<LoginResponse> {
-    await this._rl("auth.login");
-    return this._requestRS<LoginResponse>("POST", "/auth/login/mfa/totp", data, true, false);
+    const rl = await this._rl("auth.login");
+    return this._requestRS<LoginResponse>("POST", "/auth/login/mfa/totp", data, true, false, rl);
   }
 
   async sendMfaSmsCode(): Promise<number> {
-    await this._rl("auth.login");
-    return this._request("POST", "/auth/login/mfa/sms/send", true, false);
+    const rl = await this._rl("auth.login");
+    return this._request("POST", "/auth/login/mfa/sms/send", true, false, rl);
   }
 
   async loginMfaSms(data: MfaSmsPayload): Promise<LoginResponse> {
-    await this._rl("auth.login");
-    return this._requestRS<LoginResponse>("POST", "/auth/login/mfa/sms", data, true, false);
+    const rl = await this._rl("auth.login");
+    return this._requestRS<LoginResponse>("POST", "/auth/login/mfa/sms", data, true, false, rl);
   }
 
   async logout(): Promise<number> {
-    await this._rl("auth.logout");
-    return this._request("POST", "/auth/logout", true);
+    const rl = await this._rl("auth.logout");
+    return this._request("POST", "/auth/logout", true, true, rl);
   }
 
   async verifyEmail(data: VerifyEmailPayload): Promise<number> {
-    await this._rl("auth.verify");
-    return this._requestS("POST", "/auth/verify", data, true, false);
+    const rl = await this._rl("auth.verify");
+    return this._requestS("POST", "/auth/verify", data, true, false, rl);
   }
 
   async resendVerificationEmail(): Promise<number> {
-    await this._rl("auth.verify");
-    return this._request("POST", "/auth/verify/resend", true);
+    const rl = await this._rl("auth.verify");
+    return this._request("POST", "/auth/verify/resend", true, true, rl);
   }
 
   async forgotPassword(data: ForgotPasswordPayload): Promise<number> {
-    await this._rl("auth.forgot");
-    return this._requestS("POST", "/auth/forgot", data, true, false);
+    const rl = await this._rl("auth.forgot");
+    return this._requestS("POST", "/auth/forgot", data, true, false, rl);
   }
 
   async resetPassword(data: ResetPasswordPayload): Promise<number> {
-    await this._rl("auth.reset");
-    return this._requestS("POST", "/auth/reset", data, true, false);
+    const rl = await this._rl("auth.reset");
+    return this._requestS("POST", "/auth/reset", data, true, false, rl);
   }
 
   async getSessions(): Promise<AuthSession[]> {
-    await this._rl("auth.sessions");
-    return this._requestR<AuthSession[]>("GET", "/auth/sessions", true);
+    const rl = await this._rl("auth.sessions");
+    return this._requestR<AuthSession[]>("GET", "/auth/sessions", true, true, rl);
   }
 
   async logoutSessions(data: LogoutSessionsPayload): Promise<number> {
-    await this._rl("auth.sessions");
-    return this._requestS("POST", "/auth/sessions/logout", data, true);
+    const rl = await this._rl("auth.sessions");
+    return this._requestS("POST", "/auth/sessions/logout", data, true, true, rl);
   }
 
   async authorizeIp(data: AuthorizeIpPayload): Promise<number> {
-    return this._requestS("POST", "/auth/authorize-ip", data, true);
+    const rl = await this._rl("auth.authorizeIp");
+    return this._requestS("POST", "/auth/authorize-ip", data, true, true, rl);
   }
 
   async webauthnAuthenticationOptions(): Promise<unknown> {
-    return this._requestR<unknown>("POST", "/auth/webauthn/authentication-options", true, false);
+    const rl = await this._rl("auth.webauthn");
+    return this._requestR<unknown>("POST", "/auth/webauthn/authentication-options", true, false, rl);
   }
 
   async webauthnAuthenticate(data: unknown): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/auth/webauthn/authenticate", data, true, false);
+    const rl = await this._rl("auth.webauthn");
+    return this._requestRS<unknown>("POST", "/auth/webauthn/authenticate", data, true, false, rl);
   }
 
   async loginMfaWebauthnOptions(): Promise<unknown> {
-    return this._requestR<unknown>("POST", "/auth/login/mfa/webauthn/authentication-options", true, false);
+    const rl = await this._rl("auth.login");
+    return this._requestR<unknown>("POST", "/auth/login/mfa/webauthn/authentication-options", true, false, rl);
   }
 
   async loginMfaWebauthn(data: unknown): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/auth/login/mfa/webauthn", data, true, false);
+    const rl = await this._rl("auth.login");
+    return this._requestRS<unknown>("POST", "/auth/login/mfa/webauthn", data, true, false, rl);
   }
 
   async redeemBetaCode(data: { code: string }): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/auth/redeem-beta-code", data, true);
+    const rl = await this._rl("auth.redeemBetaCode");
+    return this._requestRS<unknown>("POST", "/auth/redeem-beta-code", data, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -370,220 +577,271 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async getChannel(channelId: string): Promise<Channel> {
-    await this._rl("channels.get", { channelId });
-    return this._requestR<Channel>("GET", `/channels/${channelId}`, true);
+    const rl = await this._rl("channels.get", { channelId });
+    return this._requestR<Channel>("GET", `/channels/${channelId}`, true, true, rl);
   }
 
   async getChannelRtcRegions(channelId: string): Promise<VoiceRegion[]> {
-    await this._rl("channels.rtcRegions", { channelId });
-    return this._requestR<VoiceRegion[]>("GET", `/channels/${channelId}/rtc-regions`, true);
+    const rl = await this._rl("channels.rtcRegions", { channelId });
+    return this._requestR<VoiceRegion[]>("GET", `/channels/${channelId}/rtc-regions`, true, true, rl);
   }
 
   async updateChannel(channelId: string, data: UpdateChannelPayload): Promise<Channel> {
-    await this._rl("channels.update", { channelId });
-    return this._requestRS<Channel>("PATCH", `/channels/${channelId}`, data, true);
+    const rl = await this._rl("channels.update", { channelId });
+    return this._requestRS<Channel>("PATCH", `/channels/${channelId}`, data, true, true, rl);
   }
 
   async deleteChannel(channelId: string): Promise<number> {
-    await this._rl("channels.delete", { channelId });
-    return this._request("DELETE", `/channels/${channelId}`, true);
+    const rl = await this._rl("channels.delete", { channelId });
+    return this._request("DELETE", `/channels/${channelId}`, true, true, rl);
   }
 
   async clearMessageAcknowledgement(channelId: string): Promise<number> {
-    return this._request("DELETE", `/channels/${channelId}/messages/ack`, true);
+    const rl = await this._rl("channels.messages.ackClear", { channelId });
+    return this._request("DELETE", `/channels/${channelId}/messages/ack`, true, true, rl);
   }
 
   async getMessages(channelId: string, options?: GetMessagesOptions): Promise<Message[]> {
-    await this._rl("channels.messages.list", { channelId });
+    const rl = await this._rl("channels.messages.list", { channelId });
     const qs = options ? toQueryString(options as Record<string, string | number | undefined>) : "";
-    return this._requestR<Message[]>("GET", `/channels/${channelId}/messages${qs}`, true);
+    return this._requestR<Message[]>("GET", `/channels/${channelId}/messages${qs}`, true, true, rl);
   }
 
   async getMessage(channelId: string, messageId: string): Promise<Message> {
-    await this._rl("channels.messages.get", { channelId });
-    return this._requestR<Message>("GET", `/channels/${channelId}/messages/${messageId}`, true);
+    const rl = await this._rl("channels.messages.get", { channelId });
+    return this._requestR<Message>("GET", `/channels/${channelId}/messages/${messageId}`, true, true, rl);
   }
 
   async searchChannel(channelId: string, data: SearchPayload): Promise<unknown> {
-    await this._rl("channels.search", { channelId });
-    return this._requestRS<unknown>("POST", `/channels/${channelId}/search`, data, true);
+    const rl = await this._rl("channels.search", { channelId });
+    return this._requestRS<unknown>("POST", `/channels/${channelId}/search`, data, true, true, rl);
   }
 
   /**
    * Send a message to a channel.
    * Accepts a `CreateMessagePayload` object or a simple `string` for quick text messages.
+   * When the payload has `files`, the request is sent as `multipart/form-data`.
    */
   async sendMessage(channelId: string, message: string | CreateMessagePayload): Promise<Message> {
-    await this._rl("channels.messages.send", { channelId });
+    const rl = await this._rl("channels.messages.send", { channelId });
     const payload: CreateMessagePayload = typeof message === "string" ? { content: message } : message;
-    return this._requestRS<Message>("POST", `/channels/${channelId}/messages`, payload, true);
+    if (hasFiles(payload)) {
+      return this._requestMultipart<Message, CreateMessagePayload>(
+        "POST",
+        `/channels/${channelId}/messages`,
+        payload,
+        true,
+        true,
+        rl,
+      );
+    }
+    return this._requestRS<Message>("POST", `/channels/${channelId}/messages`, payload, true, true, rl);
   }
 
+  /**
+   * Edit a message. New `files` are uploaded as `multipart/form-data`;
+   * pass existing attachments in `attachments` to keep them.
+   */
   async editMessage(channelId: string, messageId: string, message: EditMessagePayload): Promise<Message> {
-    await this._rl("channels.messages.edit", { channelId });
+    const rl = await this._rl("channels.messages.edit", { channelId });
+    if (hasFiles(message)) {
+      return this._requestMultipart<Message, EditMessagePayload>(
+        "PATCH",
+        `/channels/${channelId}/messages/${messageId}`,
+        message,
+        true,
+        true,
+        rl,
+      );
+    }
     return this._requestRS<Message>(
       "PATCH",
       `/channels/${channelId}/messages/${messageId}`,
       message,
       true,
+      true,
+      rl,
     );
   }
 
   async deleteMessage(channelId: string, messageId: string): Promise<number> {
-    await this._rl("channels.messages.delete", { channelId });
-    return this._request("DELETE", `/channels/${channelId}/messages/${messageId}`, true);
+    const rl = await this._rl("channels.messages.delete", { channelId });
+    return this._request("DELETE", `/channels/${channelId}/messages/${messageId}`, true, true, rl);
   }
 
   async deleteMessageAttachment(channelId: string, messageId: string, attachmentId: string): Promise<number> {
+    const rl = await this._rl("channels.messages.attachments.delete", { channelId });
     return this._request(
       "DELETE",
       `/channels/${channelId}/messages/${messageId}/attachments/${attachmentId}`,
       true,
+      true,
+      rl,
     );
   }
 
   async bulkDeleteMessages(channelId: string, data: BulkDeletePayload): Promise<number> {
-    await this._rl("channels.messages.bulkDelete", { channelId });
-    return this._requestS("POST", `/channels/${channelId}/messages/bulk-delete`, data, true);
+    const rl = await this._rl("channels.messages.bulkDelete", { channelId });
+    return this._requestS("POST", `/channels/${channelId}/messages/bulk-delete`, data, true, true, rl);
   }
 
   async triggerTypingIndicator(channelId: string): Promise<number> {
-    await this._rl("channels.typing", { channelId });
-    return this._request("POST", `/channels/${channelId}/typing`, true);
+    const rl = await this._rl("channels.typing", { channelId });
+    return this._request("POST", `/channels/${channelId}/typing`, true, true, rl);
   }
 
   async acknowledgeMessage(channelId: string, messageId: string, details: MessageAck): Promise<number> {
-    await this._rl("channels.messages.ack", { channelId });
+    const rl = await this._rl("channels.messages.ack", { channelId });
     return this._requestS(
       "POST",
       `/channels/${channelId}/messages/${messageId}/ack`,
       details,
       true,
+      true,
+      rl,
     );
   }
 
   async getPinnedMessages(channelId: string): Promise<Message[]> {
-    await this._rl("channels.pins.list", { channelId });
-    return this._requestR<Message[]>("GET", `/channels/${channelId}/pins`, true);
+    const rl = await this._rl("channels.pins.list", { channelId });
+    return this._requestR<Message[]>("GET", `/channels/${channelId}/pins`, true, true, rl);
   }
 
   async pinMessage(channelId: string, messageId: string): Promise<number> {
-    await this._rl("channels.pins.add", { channelId });
-    return this._request("PUT", `/channels/${channelId}/pins/${messageId}`, true);
+    const rl = await this._rl("channels.pins.add", { channelId });
+    return this._request("PUT", `/channels/${channelId}/pins/${messageId}`, true, true, rl);
   }
 
   async unpinMessage(channelId: string, messageId: string): Promise<number> {
-    await this._rl("channels.pins.remove", { channelId });
-    return this._request("DELETE", `/channels/${channelId}/pins/${messageId}`, true);
+    const rl = await this._rl("channels.pins.remove", { channelId });
+    return this._request("DELETE", `/channels/${channelId}/pins/${messageId}`, true, true, rl);
   }
 
   // ── Reactions ────────────────────────────────────────────────────────
 
   async getReactions(channelId: string, messageId: string, emoji: string): Promise<User[]> {
-    await this._rl("channels.reactions.get", { channelId });
+    const rl = await this._rl("channels.reactions.get", { channelId });
     return this._requestR<User[]>(
       "GET",
       `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
       true,
+      true,
+      rl,
     );
   }
 
   async addReaction(channelId: string, messageId: string, emoji: string): Promise<number> {
-    await this._rl("channels.reactions.add", { channelId });
+    const rl = await this._rl("channels.reactions.add", { channelId });
     return this._request(
       "PUT",
       `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
       true,
+      true,
+      rl,
     );
   }
 
   async removeOwnReaction(channelId: string, messageId: string, emoji: string): Promise<number> {
-    await this._rl("channels.reactions.remove", { channelId });
+    const rl = await this._rl("channels.reactions.remove", { channelId });
     return this._request(
       "DELETE",
       `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
       true,
+      true,
+      rl,
     );
   }
 
   async removeUserReaction(channelId: string, messageId: string, emoji: string, targetId: string): Promise<number> {
-    await this._rl("channels.reactions.remove", { channelId });
+    const rl = await this._rl("channels.reactions.remove", { channelId });
     return this._request(
       "DELETE",
       `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/${targetId}`,
       true,
+      true,
+      rl,
     );
   }
 
   async removeAllReactionsForEmoji(channelId: string, messageId: string, emoji: string): Promise<number> {
-    await this._rl("channels.reactions.removeAll", { channelId });
+    const rl = await this._rl("channels.reactions.removeAll", { channelId });
     return this._request(
       "DELETE",
       `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
       true,
+      true,
+      rl,
     );
   }
 
   async removeAllReactions(channelId: string, messageId: string): Promise<number> {
-    await this._rl("channels.reactions.removeAll", { channelId });
-    return this._request("DELETE", `/channels/${channelId}/messages/${messageId}/reactions`, true);
+    const rl = await this._rl("channels.reactions.removeAll", { channelId });
+    return this._request("DELETE", `/channels/${channelId}/messages/${messageId}/reactions`, true, true, rl);
   }
 
   // ── Attachments / Recipients / Calls / Invites / Webhooks ───────────
 
-  async uploadAttachments(channelId: string, data: unknown): Promise<unknown> {
-    await this._rl("channels.attachments", { channelId });
-    return this._requestRS<unknown>("POST", `/channels/${channelId}/attachments`, data, true);
+  /** Upload files ahead of sending a message. Returns the server-side upload descriptors. */
+  async uploadAttachments(channelId: string, files: FileAttachment[]): Promise<UploadedAttachment[]> {
+    const rl = await this._rl("channels.attachments", { channelId });
+    return this._requestMultipart<UploadedAttachment[], { files: FileAttachment[] }>(
+      "POST",
+      `/channels/${channelId}/attachments`,
+      { files },
+      true,
+      true,
+      rl,
+    );
   }
 
   async addRecipient(channelId: string, userId: string): Promise<number> {
-    await this._rl("channels.recipients.add", { channelId });
-    return this._request("PUT", `/channels/${channelId}/recipients/${userId}`, true);
+    const rl = await this._rl("channels.recipients.add", { channelId });
+    return this._request("PUT", `/channels/${channelId}/recipients/${userId}`, true, true, rl);
   }
 
   async removeRecipient(channelId: string, userId: string): Promise<number> {
-    await this._rl("channels.recipients.remove", { channelId });
-    return this._request("DELETE", `/channels/${channelId}/recipients/${userId}`, true);
+    const rl = await this._rl("channels.recipients.remove", { channelId });
+    return this._request("DELETE", `/channels/${channelId}/recipients/${userId}`, true, true, rl);
   }
 
   async getCall(channelId: string): Promise<CallInfo> {
-    await this._rl("channels.call.get", { channelId });
-    return this._requestR<CallInfo>("GET", `/channels/${channelId}/call`, true);
+    const rl = await this._rl("channels.call.get", { channelId });
+    return this._requestR<CallInfo>("GET", `/channels/${channelId}/call`, true, true, rl);
   }
 
   async updateCall(channelId: string, data: UpdateCallPayload): Promise<CallInfo> {
-    await this._rl("channels.call.update", { channelId });
-    return this._requestRS<CallInfo>("PATCH", `/channels/${channelId}/call`, data, true);
+    const rl = await this._rl("channels.call.update", { channelId });
+    return this._requestRS<CallInfo>("PATCH", `/channels/${channelId}/call`, data, true, true, rl);
   }
 
   async ringCall(channelId: string, data: RingCallPayload): Promise<number> {
-    await this._rl("channels.call.ring", { channelId });
-    return this._requestS("POST", `/channels/${channelId}/call/ring`, data, true);
+    const rl = await this._rl("channels.call.ring", { channelId });
+    return this._requestS("POST", `/channels/${channelId}/call/ring`, data, true, true, rl);
   }
 
   async stopRinging(channelId: string): Promise<number> {
-    await this._rl("channels.call.stopRinging", { channelId });
-    return this._request("POST", `/channels/${channelId}/call/stop-ringing`, true);
+    const rl = await this._rl("channels.call.stopRinging", { channelId });
+    return this._request("POST", `/channels/${channelId}/call/stop-ringing`, true, true, rl);
   }
 
   async getChannelInvites(channelId: string): Promise<Invite[]> {
-    await this._rl("channels.invites.list", { channelId });
-    return this._requestR<Invite[]>("GET", `/channels/${channelId}/invites`, true);
+    const rl = await this._rl("channels.invites.list", { channelId });
+    return this._requestR<Invite[]>("GET", `/channels/${channelId}/invites`, true, true, rl);
   }
 
   async createChannelInvite(channelId: string, data: CreateInvitePayload): Promise<Invite> {
-    await this._rl("channels.invites.create", { channelId });
-    return this._requestRS<Invite>("POST", `/channels/${channelId}/invites`, data, true);
+    const rl = await this._rl("channels.invites.create", { channelId });
+    return this._requestRS<Invite>("POST", `/channels/${channelId}/invites`, data, true, true, rl);
   }
 
   async getChannelWebhooks(channelId: string): Promise<Webhook[]> {
-    await this._rl("channels.webhooks.list", { channelId });
-    return this._requestR<Webhook[]>("GET", `/channels/${channelId}/webhooks`, true);
+    const rl = await this._rl("channels.webhooks.list", { channelId });
+    return this._requestR<Webhook[]>("GET", `/channels/${channelId}/webhooks`, true, true, rl);
   }
 
   async createChannelWebhook(channelId: string, data: CreateWebhookPayload): Promise<Webhook> {
-    await this._rl("channels.webhooks.create", { channelId });
-    return this._requestRS<Webhook>("POST", `/channels/${channelId}/webhooks`, data, true);
+    const rl = await this._rl("channels.webhooks.create", { channelId });
+    return this._requestRS<Webhook>("POST", `/channels/${channelId}/webhooks`, data, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -591,8 +849,8 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async deleteAttachment(uploadFilename: string): Promise<number> {
-    await this._rl("attachments.delete");
-    return this._request("DELETE", `/attachments/${uploadFilename}`, true);
+    const rl = await this._rl("attachments.delete");
+    return this._request("DELETE", `/attachments/${uploadFilename}`, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -600,32 +858,33 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async getCurrentUserMemes(): Promise<FavoriteMeme[]> {
-    await this._rl("users.memes.list");
-    return this._requestR<FavoriteMeme[]>("GET", "/users/@me/memes", true);
+    const rl = await this._rl("users.memes.list");
+    return this._requestR<FavoriteMeme[]>("GET", "/users/@me/memes", true, true, rl);
   }
 
   async createCurrentUserMeme(data: CreateMemePayload): Promise<FavoriteMeme> {
-    await this._rl("users.memes.create");
-    return this._requestRS<FavoriteMeme>("POST", "/users/@me/memes", data, true);
+    const rl = await this._rl("users.memes.create");
+    return this._requestRS<FavoriteMeme>("POST", "/users/@me/memes", data, true, true, rl);
   }
 
   async postChannelMessageMeme(channelId: string, messageId: string, data: unknown): Promise<number> {
-    return this._requestS("POST", `/channels/${channelId}/messages/${messageId}/memes`, data, true);
+    const rl = await this._rl("channels.messages.memes", { channelId });
+    return this._requestS("POST", `/channels/${channelId}/messages/${messageId}/memes`, data, true, true, rl);
   }
 
   async getCurrentUserMeme(memeId: string): Promise<FavoriteMeme> {
-    await this._rl("users.memes.get");
-    return this._requestR<FavoriteMeme>("GET", `/users/@me/memes/${memeId}`, true);
+    const rl = await this._rl("users.memes.get");
+    return this._requestR<FavoriteMeme>("GET", `/users/@me/memes/${memeId}`, true, true, rl);
   }
 
   async updateCurrentUserMeme(memeId: string, data: UpdateMemePayload): Promise<FavoriteMeme> {
-    await this._rl("users.memes.update");
-    return this._requestRS<FavoriteMeme>("PATCH", `/users/@me/memes/${memeId}`, data, true);
+    const rl = await this._rl("users.memes.update");
+    return this._requestRS<FavoriteMeme>("PATCH", `/users/@me/memes/${memeId}`, data, true, true, rl);
   }
 
   async deleteCurrentUserMeme(memeId: string): Promise<number> {
-    await this._rl("users.memes.delete");
-    return this._request("DELETE", `/users/@me/memes/${memeId}`, true);
+    const rl = await this._rl("users.memes.delete");
+    return this._request("DELETE", `/users/@me/memes/${memeId}`, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -633,18 +892,18 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async getInvite(inviteCode: string): Promise<Invite> {
-    await this._rl("invites.get", { inviteCode });
-    return this._requestR<Invite>("GET", `/invites/${inviteCode}`, true);
+    const rl = await this._rl("invites.get", { inviteCode });
+    return this._requestR<Invite>("GET", `/invites/${inviteCode}`, true, true, rl);
   }
 
   async joinGuild(inviteCode: string): Promise<Invite> {
-    await this._rl("invites.join", { inviteCode });
-    return this._requestR<Invite>("POST", `/invites/${inviteCode}`, true);
+    const rl = await this._rl("invites.join", { inviteCode });
+    return this._requestR<Invite>("POST", `/invites/${inviteCode}`, true, true, rl);
   }
 
   async deleteInvite(inviteCode: string): Promise<number> {
-    await this._rl("invites.delete", { inviteCode });
-    return this._request("DELETE", `/invites/${inviteCode}`, true);
+    const rl = await this._rl("invites.delete", { inviteCode });
+    return this._request("DELETE", `/invites/${inviteCode}`, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -652,8 +911,8 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async ackBulk(data: AckBulkPayload): Promise<number> {
-    await this._rl("readStates.ackBulk");
-    return this._requestS("POST", "/read-states/ack-bulk", data, true);
+    const rl = await this._rl("readStates.ackBulk");
+    return this._requestS("POST", "/read-states/ack-bulk", data, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -661,18 +920,18 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async reportMessage(data: ReportPayload): Promise<number> {
-    await this._rl("reports.message");
-    return this._requestS("POST", "/reports/message", data, true);
+    const rl = await this._rl("reports.message");
+    return this._requestS("POST", "/reports/message", data, true, true, rl);
   }
 
   async reportUser(data: ReportPayload): Promise<number> {
-    await this._rl("reports.user");
-    return this._requestS("POST", "/reports/user", data, true);
+    const rl = await this._rl("reports.user");
+    return this._requestS("POST", "/reports/user", data, true, true, rl);
   }
 
   async reportGuild(data: ReportPayload): Promise<number> {
-    await this._rl("reports.guild");
-    return this._requestS("POST", "/reports/guild", data, true);
+    const rl = await this._rl("reports.guild");
+    return this._requestS("POST", "/reports/guild", data, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -680,229 +939,229 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async createGuild(data: CreateGuildPayload): Promise<Guild> {
-    await this._rl("guilds.create");
-    return this._requestRS<Guild>("POST", "/guilds", data, true);
+    const rl = await this._rl("guilds.create");
+    return this._requestRS<Guild>("POST", "/guilds", data, true, true, rl);
   }
 
   async getCurrentUserGuilds(): Promise<Guild[]> {
-    await this._rl("users.guilds.list");
-    return this._requestR<Guild[]>("GET", "/users/@me/guilds", true);
+    const rl = await this._rl("users.guilds.list");
+    return this._requestR<Guild[]>("GET", "/users/@me/guilds", true, true, rl);
   }
 
   async leaveGuild(guildId: string): Promise<number> {
-    await this._rl("guilds.leave", { guildId });
-    return this._request("DELETE", `/users/@me/guilds/${guildId}`, true);
+    const rl = await this._rl("guilds.leave", { guildId });
+    return this._request("DELETE", `/users/@me/guilds/${guildId}`, true, true, rl);
   }
 
   async getGuild(guildId: string): Promise<Guild> {
-    await this._rl("guilds.get", { guildId });
-    return this._requestR<Guild>("GET", `/guilds/${guildId}`, true);
+    const rl = await this._rl("guilds.get", { guildId });
+    return this._requestR<Guild>("GET", `/guilds/${guildId}`, true, true, rl);
   }
 
   async updateGuild(guildId: string, data: UpdateGuildPayload): Promise<Guild> {
-    await this._rl("guilds.update", { guildId });
-    return this._requestRS<Guild>("PATCH", `/guilds/${guildId}`, data, true);
+    const rl = await this._rl("guilds.update", { guildId });
+    return this._requestRS<Guild>("PATCH", `/guilds/${guildId}`, data, true, true, rl);
   }
 
   async deleteGuild(guildId: string, data: DeleteGuildPayload): Promise<number> {
-    await this._rl("guilds.delete", { guildId });
-    return this._requestS("POST", `/guilds/${guildId}/delete`, data, true);
+    const rl = await this._rl("guilds.delete", { guildId });
+    return this._requestS("POST", `/guilds/${guildId}/delete`, data, true, true, rl);
   }
 
   async getGuildVanityUrl(guildId: string): Promise<{ code: string | null }> {
-    await this._rl("guilds.vanityUrl.get", { guildId });
-    return this._requestR<{ code: string | null }>("GET", `/guilds/${guildId}/vanity-url`, true);
+    const rl = await this._rl("guilds.vanityUrl.get", { guildId });
+    return this._requestR<{ code: string | null }>("GET", `/guilds/${guildId}/vanity-url`, true, true, rl);
   }
 
   async updateGuildVanityUrl(guildId: string, data: { code: string }): Promise<{ code: string }> {
-    await this._rl("guilds.vanityUrl.update", { guildId });
-    return this._requestRS<{ code: string }>("PATCH", `/guilds/${guildId}/vanity-url`, data, true);
+    const rl = await this._rl("guilds.vanityUrl.update", { guildId });
+    return this._requestRS<{ code: string }>("PATCH", `/guilds/${guildId}/vanity-url`, data, true, true, rl);
   }
 
   // ── Members ─────────────────────────────────────────────────────────
 
   async getMembers(guildId: string): Promise<GuildMember[]> {
-    await this._rl("guilds.members.list", { guildId });
-    return this._requestR<GuildMember[]>("GET", `/guilds/${guildId}/members`, true);
+    const rl = await this._rl("guilds.members.list", { guildId });
+    return this._requestR<GuildMember[]>("GET", `/guilds/${guildId}/members`, true, true, rl);
   }
 
   async getCurrentMember(guildId: string): Promise<GuildMember> {
-    await this._rl("guilds.members.getCurrent", { guildId });
-    return this._requestR<GuildMember>("GET", `/guilds/${guildId}/members/@me`, true);
+    const rl = await this._rl("guilds.members.getCurrent", { guildId });
+    return this._requestR<GuildMember>("GET", `/guilds/${guildId}/members/@me`, true, true, rl);
   }
 
   async getMember(guildId: string, userId: string): Promise<GuildMember> {
-    await this._rl("guilds.members.get", { guildId });
-    return this._requestR<GuildMember>("GET", `/guilds/${guildId}/members/${userId}`, true);
+    const rl = await this._rl("guilds.members.get", { guildId });
+    return this._requestR<GuildMember>("GET", `/guilds/${guildId}/members/${userId}`, true, true, rl);
   }
 
   async updateCurrentMember(guildId: string, member: UpdateMemberPayload): Promise<GuildMember> {
-    await this._rl("guilds.members.updateCurrent", { guildId });
-    return this._requestRS<GuildMember>("PATCH", `/guilds/${guildId}/members/@me`, member, true);
+    const rl = await this._rl("guilds.members.updateCurrent", { guildId });
+    return this._requestRS<GuildMember>("PATCH", `/guilds/${guildId}/members/@me`, member, true, true, rl);
   }
 
   async updateMember(guildId: string, userId: string, member: UpdateMemberPayload): Promise<GuildMember> {
-    await this._rl("guilds.members.update", { guildId });
-    return this._requestRS<GuildMember>("PATCH", `/guilds/${guildId}/members/${userId}`, member, true);
+    const rl = await this._rl("guilds.members.update", { guildId });
+    return this._requestRS<GuildMember>("PATCH", `/guilds/${guildId}/members/${userId}`, member, true, true, rl);
   }
 
   async kickMember(guildId: string, userId: string): Promise<number> {
-    await this._rl("guilds.members.kick", { guildId });
-    return this._request("DELETE", `/guilds/${guildId}/members/${userId}`, true);
+    const rl = await this._rl("guilds.members.kick", { guildId });
+    return this._request("DELETE", `/guilds/${guildId}/members/${userId}`, true, true, rl);
   }
 
   async transferOwnership(guildId: string, data: TransferOwnershipPayload): Promise<number> {
-    await this._rl("guilds.transferOwnership", { guildId });
-    return this._requestS("POST", `/guilds/${guildId}/transfer-ownership`, data, true);
+    const rl = await this._rl("guilds.transferOwnership", { guildId });
+    return this._requestS("POST", `/guilds/${guildId}/transfer-ownership`, data, true, true, rl);
   }
 
   // ── Bans ────────────────────────────────────────────────────────────
 
   async getBans(guildId: string): Promise<GuildBan[]> {
-    await this._rl("guilds.bans.list", { guildId });
-    return this._requestR<GuildBan[]>("GET", `/guilds/${guildId}/bans`, true);
+    const rl = await this._rl("guilds.bans.list", { guildId });
+    return this._requestR<GuildBan[]>("GET", `/guilds/${guildId}/bans`, true, true, rl);
   }
 
   async banMember(guildId: string, userId: string, data: BanMemberPayload): Promise<number> {
-    await this._rl("guilds.bans.add", { guildId });
-    return this._requestS("PUT", `/guilds/${guildId}/bans/${userId}`, data, true);
+    const rl = await this._rl("guilds.bans.add", { guildId });
+    return this._requestS("PUT", `/guilds/${guildId}/bans/${userId}`, data, true, true, rl);
   }
 
   async unbanMember(guildId: string, userId: string): Promise<number> {
-    await this._rl("guilds.bans.remove", { guildId });
-    return this._request("DELETE", `/guilds/${guildId}/bans/${userId}`, true);
+    const rl = await this._rl("guilds.bans.remove", { guildId });
+    return this._request("DELETE", `/guilds/${guildId}/bans/${userId}`, true, true, rl);
   }
 
   // ── Roles ───────────────────────────────────────────────────────────
 
   async addMemberRole(guildId: string, userId: string, roleId: string): Promise<number> {
-    await this._rl("guilds.members.roles.add", { guildId });
-    return this._request("PUT", `/guilds/${guildId}/members/${userId}/roles/${roleId}`, true);
+    const rl = await this._rl("guilds.members.roles.add", { guildId });
+    return this._request("PUT", `/guilds/${guildId}/members/${userId}/roles/${roleId}`, true, true, rl);
   }
 
   async removeMemberRole(guildId: string, userId: string, roleId: string): Promise<number> {
-    await this._rl("guilds.members.roles.remove", { guildId });
-    return this._request("DELETE", `/guilds/${guildId}/members/${userId}/roles/${roleId}`, true);
+    const rl = await this._rl("guilds.members.roles.remove", { guildId });
+    return this._request("DELETE", `/guilds/${guildId}/members/${userId}/roles/${roleId}`, true, true, rl);
   }
 
   async createRole(guildId: string, data: CreateRolePayload): Promise<GuildRole> {
-    await this._rl("guilds.roles.create", { guildId });
-    return this._requestRS<GuildRole>("POST", `/guilds/${guildId}/roles`, data, true);
+    const rl = await this._rl("guilds.roles.create", { guildId });
+    return this._requestRS<GuildRole>("POST", `/guilds/${guildId}/roles`, data, true, true, rl);
   }
 
   async updateRole(guildId: string, roleId: string, data: UpdateRolePayload): Promise<GuildRole> {
-    await this._rl("guilds.roles.update", { guildId });
-    return this._requestRS<GuildRole>("PATCH", `/guilds/${guildId}/roles/${roleId}`, data, true);
+    const rl = await this._rl("guilds.roles.update", { guildId });
+    return this._requestRS<GuildRole>("PATCH", `/guilds/${guildId}/roles/${roleId}`, data, true, true, rl);
   }
 
   async updateRoles(guildId: string, data: Partial<GuildRole>[]): Promise<GuildRole[]> {
-    await this._rl("guilds.roles.updateBulk", { guildId });
-    return this._requestRS<GuildRole[]>("PATCH", `/guilds/${guildId}/roles`, data, true);
+    const rl = await this._rl("guilds.roles.updateBulk", { guildId });
+    return this._requestRS<GuildRole[]>("PATCH", `/guilds/${guildId}/roles`, data, true, true, rl);
   }
 
   async deleteRole(guildId: string, roleId: string): Promise<number> {
-    await this._rl("guilds.roles.delete", { guildId });
-    return this._request("DELETE", `/guilds/${guildId}/roles/${roleId}`, true);
+    const rl = await this._rl("guilds.roles.delete", { guildId });
+    return this._request("DELETE", `/guilds/${guildId}/roles/${roleId}`, true, true, rl);
   }
 
   // ── Channels ────────────────────────────────────────────────────────
 
   async getGuildChannels(guildId: string): Promise<Channel[]> {
-    await this._rl("guilds.channels.list", { guildId });
-    return this._requestR<Channel[]>("GET", `/guilds/${guildId}/channels`, true);
+    const rl = await this._rl("guilds.channels.list", { guildId });
+    return this._requestR<Channel[]>("GET", `/guilds/${guildId}/channels`, true, true, rl);
   }
 
   async createGuildChannel(guildId: string, data: CreateChannelPayload): Promise<Channel> {
-    await this._rl("guilds.channels.create", { guildId });
-    return this._requestRS<Channel>("POST", `/guilds/${guildId}/channels`, data, true);
+    const rl = await this._rl("guilds.channels.create", { guildId });
+    return this._requestRS<Channel>("POST", `/guilds/${guildId}/channels`, data, true, true, rl);
   }
 
   async updateGuildChannels(guildId: string, data: Partial<Channel>[]): Promise<Channel[]> {
-    await this._rl("guilds.channels.update", { guildId });
-    return this._requestRS<Channel[]>("PATCH", `/guilds/${guildId}/channels`, data, true);
+    const rl = await this._rl("guilds.channels.update", { guildId });
+    return this._requestRS<Channel[]>("PATCH", `/guilds/${guildId}/channels`, data, true, true, rl);
   }
 
   // ── Search / Audit Logs ─────────────────────────────────────────────
 
   async searchGuild(guildId: string, data: SearchPayload): Promise<unknown> {
-    await this._rl("guilds.search", { guildId });
-    return this._requestRS<unknown>("POST", `/guilds/${guildId}/search`, data, true);
+    const rl = await this._rl("guilds.search", { guildId });
+    return this._requestRS<unknown>("POST", `/guilds/${guildId}/search`, data, true, true, rl);
   }
 
   async getGuildAuditLogFilters(guildId: string): Promise<unknown> {
-    await this._rl("guilds.auditLogs.filters", { guildId });
-    return this._requestR<unknown>("GET", `/guilds/${guildId}/audit-logs/filters`, true);
+    const rl = await this._rl("guilds.auditLogs.filters", { guildId });
+    return this._requestR<unknown>("GET", `/guilds/${guildId}/audit-logs/filters`, true, true, rl);
   }
 
   async searchAuditLog(guildId: string, data: AuditLogSearchPayload): Promise<GuildAuditLog[]> {
-    await this._rl("guilds.auditLogs.search", { guildId });
-    return this._requestRS<GuildAuditLog[]>("POST", `/guilds/${guildId}/audit-logs/search`, data, true);
+    const rl = await this._rl("guilds.auditLogs.search", { guildId });
+    return this._requestRS<GuildAuditLog[]>("POST", `/guilds/${guildId}/audit-logs/search`, data, true, true, rl);
   }
 
   // ── Emojis ──────────────────────────────────────────────────────────
 
   async getEmojis(guildId: string): Promise<GuildEmoji[]> {
-    await this._rl("guilds.emojis.list", { guildId });
-    return this._requestR<GuildEmoji[]>("GET", `/guilds/${guildId}/emojis`, true);
+    const rl = await this._rl("guilds.emojis.list", { guildId });
+    return this._requestR<GuildEmoji[]>("GET", `/guilds/${guildId}/emojis`, true, true, rl);
   }
 
   async createEmoji(guildId: string, data: CreateEmojiPayload): Promise<GuildEmoji> {
-    await this._rl("guilds.emojis.create", { guildId });
-    return this._requestRS<GuildEmoji>("POST", `/guilds/${guildId}/emojis`, data, true);
+    const rl = await this._rl("guilds.emojis.create", { guildId });
+    return this._requestRS<GuildEmoji>("POST", `/guilds/${guildId}/emojis`, data, true, true, rl);
   }
 
   async createEmojiBulk(guildId: string, data: CreateEmojiPayload[]): Promise<GuildEmoji[]> {
-    await this._rl("guilds.emojis.createBulk", { guildId });
-    return this._requestRS<GuildEmoji[]>("POST", `/guilds/${guildId}/emojis/bulk`, data, true);
+    const rl = await this._rl("guilds.emojis.createBulk", { guildId });
+    return this._requestRS<GuildEmoji[]>("POST", `/guilds/${guildId}/emojis/bulk`, data, true, true, rl);
   }
 
   async updateEmoji(guildId: string, emojiId: string, data: UpdateEmojiPayload): Promise<GuildEmoji> {
-    await this._rl("guilds.emojis.update", { guildId });
-    return this._requestRS<GuildEmoji>("PATCH", `/guilds/${guildId}/emojis/${emojiId}`, data, true);
+    const rl = await this._rl("guilds.emojis.update", { guildId });
+    return this._requestRS<GuildEmoji>("PATCH", `/guilds/${guildId}/emojis/${emojiId}`, data, true, true, rl);
   }
 
   async deleteEmoji(guildId: string, emojiId: string): Promise<number> {
-    await this._rl("guilds.emojis.delete", { guildId });
-    return this._request("DELETE", `/guilds/${guildId}/emojis/${emojiId}`, true);
+    const rl = await this._rl("guilds.emojis.delete", { guildId });
+    return this._request("DELETE", `/guilds/${guildId}/emojis/${emojiId}`, true, true, rl);
   }
 
   // ── Stickers ────────────────────────────────────────────────────────
 
   async getStickers(guildId: string): Promise<GuildSticker[]> {
-    await this._rl("guilds.stickers.list", { guildId });
-    return this._requestR<GuildSticker[]>("GET", `/guilds/${guildId}/stickers`, true);
+    const rl = await this._rl("guilds.stickers.list", { guildId });
+    return this._requestR<GuildSticker[]>("GET", `/guilds/${guildId}/stickers`, true, true, rl);
   }
 
   async createSticker(guildId: string, data: CreateStickerPayload): Promise<GuildSticker> {
-    await this._rl("guilds.stickers.create", { guildId });
-    return this._requestRS<GuildSticker>("POST", `/guilds/${guildId}/stickers`, data, true);
+    const rl = await this._rl("guilds.stickers.create", { guildId });
+    return this._requestRS<GuildSticker>("POST", `/guilds/${guildId}/stickers`, data, true, true, rl);
   }
 
   async createStickerBulk(guildId: string, data: CreateStickerPayload[]): Promise<GuildSticker[]> {
-    await this._rl("guilds.stickers.createBulk", { guildId });
-    return this._requestRS<GuildSticker[]>("POST", `/guilds/${guildId}/stickers/bulk`, data, true);
+    const rl = await this._rl("guilds.stickers.createBulk", { guildId });
+    return this._requestRS<GuildSticker[]>("POST", `/guilds/${guildId}/stickers/bulk`, data, true, true, rl);
   }
 
   async updateSticker(guildId: string, stickerId: string, data: UpdateStickerPayload): Promise<GuildSticker> {
-    await this._rl("guilds.stickers.update", { guildId });
-    return this._requestRS<GuildSticker>("PATCH", `/guilds/${guildId}/stickers/${stickerId}`, data, true);
+    const rl = await this._rl("guilds.stickers.update", { guildId });
+    return this._requestRS<GuildSticker>("PATCH", `/guilds/${guildId}/stickers/${stickerId}`, data, true, true, rl);
   }
 
   async deleteSticker(guildId: string, stickerId: string): Promise<number> {
-    await this._rl("guilds.stickers.delete", { guildId });
-    return this._request("DELETE", `/guilds/${guildId}/stickers/${stickerId}`, true);
+    const rl = await this._rl("guilds.stickers.delete", { guildId });
+    return this._request("DELETE", `/guilds/${guildId}/stickers/${stickerId}`, true, true, rl);
   }
 
   // ── Guild Invites / Webhooks ────────────────────────────────────────
 
   async getGuildInvites(guildId: string): Promise<Invite[]> {
-    await this._rl("guilds.invites.list", { guildId });
-    return this._requestR<Invite[]>("GET", `/guilds/${guildId}/invites`, true);
+    const rl = await this._rl("guilds.invites.list", { guildId });
+    return this._requestR<Invite[]>("GET", `/guilds/${guildId}/invites`, true, true, rl);
   }
 
   async getGuildWebhooks(guildId: string): Promise<Webhook[]> {
-    await this._rl("guilds.webhooks.list", { guildId });
-    return this._requestR<Webhook[]>("GET", `/guilds/${guildId}/webhooks`, true);
+    const rl = await this._rl("guilds.webhooks.list", { guildId });
+    return this._requestR<Webhook[]>("GET", `/guilds/${guildId}/webhooks`, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -910,28 +1169,28 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async tenorSearch(query: string): Promise<unknown> {
-    await this._rl("tenor.search");
-    return this._requestR<unknown>("GET", `/tenor/search?q=${encodeURIComponent(query)}`, true);
+    const rl = await this._rl("tenor.search");
+    return this._requestR<unknown>("GET", `/tenor/search?q=${encodeURIComponent(query)}`, true, true, rl);
   }
 
   async tenorFeatured(): Promise<unknown> {
-    await this._rl("tenor.featured");
-    return this._requestR<unknown>("GET", "/tenor/featured", true);
+    const rl = await this._rl("tenor.featured");
+    return this._requestR<unknown>("GET", "/tenor/featured", true, true, rl);
   }
 
   async tenorTrendingGifs(): Promise<unknown> {
-    await this._rl("tenor.trending");
-    return this._requestR<unknown>("GET", "/tenor/trending-gifs", true);
+    const rl = await this._rl("tenor.trending");
+    return this._requestR<unknown>("GET", "/tenor/trending-gifs", true, true, rl);
   }
 
   async tenorRegisterShare(data: unknown): Promise<number> {
-    await this._rl("tenor.registerShare");
-    return this._requestS("POST", "/tenor/register-share", data, true);
+    const rl = await this._rl("tenor.registerShare");
+    return this._requestS("POST", "/tenor/register-share", data, true, true, rl);
   }
 
   async tenorSuggest(query: string): Promise<unknown> {
-    await this._rl("tenor.suggest");
-    return this._requestR<unknown>("GET", `/tenor/suggest?q=${encodeURIComponent(query)}`, true);
+    const rl = await this._rl("tenor.suggest");
+    return this._requestR<unknown>("GET", `/tenor/suggest?q=${encodeURIComponent(query)}`, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -939,168 +1198,201 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async getCurrentUser(): Promise<User> {
-    await this._rl("users.getCurrent");
-    return this._requestR<User>("GET", "/users/@me", true);
+    const rl = await this._rl("users.getCurrent");
+    return this._requestR<User>("GET", "/users/@me", true, true, rl);
   }
 
   async updateCurrentUser(data: UpdateCurrentUserPayload): Promise<User> {
-    await this._rl("users.updateCurrent");
-    return this._requestRS<User>("PATCH", "/users/@me", data, true);
+    const rl = await this._rl("users.updateCurrent");
+    return this._requestRS<User>("PATCH", "/users/@me", data, true, true, rl);
   }
 
   async checkUsernameAvailability(tag: string): Promise<{ available: boolean }> {
-    await this._rl("users.checkTag");
-    return this._requestR<{ available: boolean }>("GET", `/users/check-tag?tag=${encodeURIComponent(tag)}`, true);
+    const rl = await this._rl("users.checkTag");
+    return this._requestR<{ available: boolean }>(
+      "GET",
+      `/users/check-tag?tag=${encodeURIComponent(tag)}`,
+      true,
+      true,
+      rl,
+    );
   }
 
   async getUser(userId: string): Promise<User> {
-    await this._rl("users.get", { userId });
-    return this._requestR<User>("GET", `/users/${userId}`, true);
+    const rl = await this._rl("users.get", { userId });
+    return this._requestR<User>("GET", `/users/${userId}`, true, true, rl);
   }
 
   async getUserProfile(targetId: string): Promise<unknown> {
-    await this._rl("users.profile", { userId: targetId });
-    return this._requestR<unknown>("GET", `/users/${targetId}/profile`, true);
+    const rl = await this._rl("users.profile", { userId: targetId });
+    return this._requestR<unknown>("GET", `/users/${targetId}/profile`, true, true, rl);
   }
 
   async getCurrentUserSettings(): Promise<UserSettings> {
-    await this._rl("users.settings.get");
-    return this._requestR<UserSettings>("GET", "/users/@me/settings", true);
+    const rl = await this._rl("users.settings.get");
+    return this._requestR<UserSettings>("GET", "/users/@me/settings", true, true, rl);
   }
 
   async updateCurrentUserSettings(settings: Partial<UserSettings>): Promise<UserSettings> {
-    await this._rl("users.settings.update");
-    return this._requestRS<UserSettings>("PATCH", "/users/@me/settings", settings, true);
+    const rl = await this._rl("users.settings.update");
+    return this._requestRS<UserSettings>("PATCH", "/users/@me/settings", settings, true, true, rl);
   }
 
   async getCurrentUserNotes(): Promise<UserNote[]> {
-    await this._rl("users.notes.list");
-    return this._requestR<UserNote[]>("GET", "/users/@me/notes", true);
+    const rl = await this._rl("users.notes.list");
+    return this._requestR<UserNote[]>("GET", "/users/@me/notes", true, true, rl);
   }
 
   async getCurrentUserNote(targetId: string): Promise<UserNote> {
-    await this._rl("users.notes.get");
-    return this._requestR<UserNote>("GET", `/users/@me/notes/${targetId}`, true);
+    const rl = await this._rl("users.notes.get");
+    return this._requestR<UserNote>("GET", `/users/@me/notes/${targetId}`, true, true, rl);
   }
 
   async setCurrentUserNote(targetId: string, data: SetNotePayload): Promise<UserNote> {
-    await this._rl("users.notes.set");
-    return this._requestRS<UserNote>("PUT", `/users/@me/notes/${targetId}`, data, true);
+    const rl = await this._rl("users.notes.set");
+    return this._requestRS<UserNote>("PUT", `/users/@me/notes/${targetId}`, data, true, true, rl);
   }
 
   async getCurrentUserBetaCodes(): Promise<BetaCode[]> {
-    await this._rl("users.betaCodes.list");
-    return this._requestR<BetaCode[]>("GET", "/users/@me/beta-codes", true);
+    const rl = await this._rl("users.betaCodes.list");
+    return this._requestR<BetaCode[]>("GET", "/users/@me/beta-codes", true, true, rl);
   }
 
   async createBetaCode(data: { count?: number }): Promise<BetaCode[]> {
-    await this._rl("users.betaCodes.create");
-    return this._requestRS<BetaCode[]>("POST", "/users/@me/beta-codes", data, true);
+    const rl = await this._rl("users.betaCodes.create");
+    return this._requestRS<BetaCode[]>("POST", "/users/@me/beta-codes", data, true, true, rl);
   }
 
   async deleteBetaCode(code: string): Promise<number> {
-    await this._rl("users.betaCodes.delete");
-    return this._request("DELETE", `/users/@me/beta-codes/${code}`, true);
+    const rl = await this._rl("users.betaCodes.delete");
+    return this._request("DELETE", `/users/@me/beta-codes/${code}`, true, true, rl);
   }
 
   async getCurrentUserMentions(): Promise<Message[]> {
-    await this._rl("users.mentions.list");
-    return this._requestR<Message[]>("GET", "/users/@me/mentions", true);
+    const rl = await this._rl("users.mentions.list");
+    return this._requestR<Message[]>("GET", "/users/@me/mentions", true, true, rl);
   }
 
   async deleteCurrentUserMention(messageId: string): Promise<number> {
-    await this._rl("users.mentions.delete");
-    return this._request("DELETE", `/users/@me/mentions/${messageId}`, true);
+    const rl = await this._rl("users.mentions.delete");
+    return this._request("DELETE", `/users/@me/mentions/${messageId}`, true, true, rl);
   }
 
   // ── MFA ─────────────────────────────────────────────────────────────
 
   async enableMfaTotp(data: MfaTotpPayload): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/users/@me/mfa/totp/enable", data, true);
+    const rl = await this._rl("users.mfa");
+    return this._requestRS<unknown>("POST", "/users/@me/mfa/totp/enable", data, true, true, rl);
   }
 
   async disableMfaTotp(data: MfaTotpPayload): Promise<number> {
-    return this._requestS("POST", "/users/@me/mfa/totp/disable", data, true);
+    const rl = await this._rl("users.mfa");
+    return this._requestS("POST", "/users/@me/mfa/totp/disable", data, true, true, rl);
   }
 
   async enableMfaSms(data: MfaSmsPayload): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/users/@me/mfa/sms/enable", data, true);
+    const rl = await this._rl("users.mfa");
+    return this._requestRS<unknown>("POST", "/users/@me/mfa/sms/enable", data, true, true, rl);
   }
 
   async disableMfaSms(data: MfaSmsPayload): Promise<number> {
-    return this._requestS("POST", "/users/@me/mfa/sms/disable", data, true);
+    const rl = await this._rl("users.mfa");
+    return this._requestS("POST", "/users/@me/mfa/sms/disable", data, true, true, rl);
   }
 
   async getMfaBackupCodes(data: { password: string }): Promise<{ codes: string[] }> {
-    return this._requestRS<{ codes: string[] }>("POST", "/users/@me/mfa/codes", data, true);
+    const rl = await this._rl("users.mfa");
+    return this._requestRS<{ codes: string[] }>("POST", "/users/@me/mfa/codes", data, true, true, rl);
   }
 
   // ── Webauthn ────────────────────────────────────────────────────────
 
   async getWebauthnCredentials(): Promise<unknown> {
-    return this._requestR<unknown>("GET", "/users/@me/mfa/webauthn/credentials", true);
+    const rl = await this._rl("users.mfa.webauthn");
+    return this._requestR<unknown>("GET", "/users/@me/mfa/webauthn/credentials", true, true, rl);
   }
 
   async createWebauthnRegistrationOptions(data: unknown): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/users/@me/mfa/webauthn/registration-options", data, true);
+    const rl = await this._rl("users.mfa.webauthn");
+    return this._requestRS<unknown>("POST", "/users/@me/mfa/webauthn/registration-options", data, true, true, rl);
   }
 
   async createWebauthnCredential(data: unknown): Promise<unknown> {
-    return this._requestRS<unknown>("POST", "/users/@me/mfa/webauthn/credentials", data, true);
+    const rl = await this._rl("users.mfa.webauthn");
+    return this._requestRS<unknown>("POST", "/users/@me/mfa/webauthn/credentials", data, true, true, rl);
   }
 
   async updateWebauthnCredential(credentialId: string, data: unknown): Promise<unknown> {
-    return this._requestRS<unknown>("PATCH", `/users/@me/mfa/webauthn/credentials/${credentialId}`, data, true);
+    const rl = await this._rl("users.mfa.webauthn");
+    return this._requestRS<unknown>(
+      "PATCH",
+      `/users/@me/mfa/webauthn/credentials/${credentialId}`,
+      data,
+      true,
+      true,
+      rl,
+    );
   }
 
   async deleteWebauthnCredential(credentialId: string, data: unknown): Promise<number> {
-    return this._requestS("POST", `/users/@me/mfa/webauthn/credentials/${credentialId}/delete`, data, true);
+    const rl = await this._rl("users.mfa.webauthn");
+    return this._requestS("POST", `/users/@me/mfa/webauthn/credentials/${credentialId}/delete`, data, true, true, rl);
   }
 
   // ── Relationships ───────────────────────────────────────────────────
 
   async getRelationships(): Promise<Relationship[]> {
-    return this._requestR<Relationship[]>("GET", "/users/@me/relationships", true);
+    const rl = await this._rl("users.relationships.list");
+    return this._requestR<Relationship[]>("GET", "/users/@me/relationships", true, true, rl);
   }
 
   async sendFriendRequest(data: SendFriendRequestPayload): Promise<number> {
-    return this._requestS("POST", "/users/@me/relationships", data, true);
+    const rl = await this._rl("users.relationships.add");
+    return this._requestS("POST", "/users/@me/relationships", data, true, true, rl);
   }
 
   async acceptFriendRequest(userId: string): Promise<number> {
-    return this._request("PUT", `/users/@me/relationships/${userId}`, true);
+    const rl = await this._rl("users.relationships.add");
+    return this._request("PUT", `/users/@me/relationships/${userId}`, true, true, rl);
   }
 
   async removeFriend(userId: string): Promise<number> {
-    return this._request("DELETE", `/users/@me/relationships/${userId}`, true);
+    const rl = await this._rl("users.relationships.remove");
+    return this._request("DELETE", `/users/@me/relationships/${userId}`, true, true, rl);
   }
 
   async blockUser(userId: string): Promise<number> {
-    return this._requestS("PUT", `/users/@me/relationships/${userId}`, { type: 2 }, true);
+    const rl = await this._rl("users.relationships.add");
+    return this._requestS("PUT", `/users/@me/relationships/${userId}`, { type: 2 }, true, true, rl);
   }
 
   // ── DM Channels ─────────────────────────────────────────────────────
 
   async getDmChannels(): Promise<Channel[]> {
-    return this._requestR<Channel[]>("GET", "/users/@me/channels", true);
+    const rl = await this._rl("users.channels.list");
+    return this._requestR<Channel[]>("GET", "/users/@me/channels", true, true, rl);
   }
 
   async createDm(data: CreateDmPayload): Promise<Channel> {
-    return this._requestRS<Channel>("POST", "/users/@me/channels", data, true);
+    const rl = await this._rl("users.channels.create");
+    return this._requestRS<Channel>("POST", "/users/@me/channels", data, true, true, rl);
   }
 
   // ── Saved Messages ──────────────────────────────────────────────────
 
   async getSavedMessages(): Promise<SavedMessage[]> {
-    return this._requestR<SavedMessage[]>("GET", "/users/@me/saved-messages", true);
+    const rl = await this._rl("users.savedMessages.list");
+    return this._requestR<SavedMessage[]>("GET", "/users/@me/saved-messages", true, true, rl);
   }
 
   async saveMessage(data: SaveMessagePayload): Promise<SavedMessage> {
-    return this._requestRS<SavedMessage>("POST", "/users/@me/saved-messages", data, true);
+    const rl = await this._rl("users.savedMessages.create");
+    return this._requestRS<SavedMessage>("POST", "/users/@me/saved-messages", data, true, true, rl);
   }
 
   async deleteSavedMessage(savedMessageId: string): Promise<number> {
-    return this._request("DELETE", `/users/@me/saved-messages/${savedMessageId}`, true);
+    const rl = await this._rl("users.savedMessages.delete");
+    return this._request("DELETE", `/users/@me/saved-messages/${savedMessageId}`, true, true, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1108,23 +1400,33 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async getWebhook(webhookId: string): Promise<Webhook> {
-    await this._rl("webhooks.get", { webhookId });
-    return this._requestR<Webhook>("GET", `/webhooks/${webhookId}`, true);
+    const rl = await this._rl("webhooks.get", { webhookId });
+    return this._requestR<Webhook>("GET", `/webhooks/${webhookId}`, true, true, rl);
   }
 
   async updateWebhook(webhookId: string, data: UpdateWebhookPayload): Promise<Webhook> {
-    await this._rl("webhooks.update", { webhookId });
-    return this._requestRS<Webhook>("PATCH", `/webhooks/${webhookId}`, data, true);
+    const rl = await this._rl("webhooks.update", { webhookId });
+    return this._requestRS<Webhook>("PATCH", `/webhooks/${webhookId}`, data, true, true, rl);
   }
 
   async deleteWebhook(webhookId: string): Promise<number> {
-    await this._rl("webhooks.delete", { webhookId });
-    return this._request("DELETE", `/webhooks/${webhookId}`, true);
+    const rl = await this._rl("webhooks.delete", { webhookId });
+    return this._request("DELETE", `/webhooks/${webhookId}`, true, true, rl);
   }
 
   async executeWebhook(webhookId: string, webhookToken: string, data: ExecuteWebhookPayload): Promise<unknown> {
-    await this._rl("webhooks.execute", { webhookId });
-    return this._requestRS<unknown>("POST", `/webhooks/${webhookId}/${webhookToken}`, data, true, false);
+    const rl = await this._rl("webhooks.execute", { webhookId });
+    if (hasFiles(data)) {
+      return this._requestMultipart<unknown, ExecuteWebhookPayload>(
+        "POST",
+        `/webhooks/${webhookId}/${webhookToken}`,
+        data,
+        true,
+        false,
+        rl,
+      );
+    }
+    return this._requestRS<unknown>("POST", `/webhooks/${webhookId}/${webhookToken}`, data, true, false, rl);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1132,10 +1434,12 @@ export class ApiClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async getGiftCode(code: string): Promise<unknown> {
-    return this._requestR<unknown>("GET", `/gift-codes/${code}`, true);
+    const rl = await this._rl("giftCodes.get");
+    return this._requestR<unknown>("GET", `/gift-codes/${code}`, true, true, rl);
   }
 
   async redeemGiftCode(code: string): Promise<unknown> {
-    return this._requestR<unknown>("POST", `/gift-codes/${code}/redeem`, true);
+    const rl = await this._rl("giftCodes.redeem");
+    return this._requestR<unknown>("POST", `/gift-codes/${code}/redeem`, true, true, rl);
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * Storage backend for entity caches.
+ *
+ * `EntityCache` writes every entity it caches through to its adapter (if it
+ * has one), so several processes — or a dashboard without a gateway
+ * connection — can read the same state. `ClientCache` asks the configured
+ * `CacheAdapterFactory` for one adapter per collection, named after the
+ * collection and scope: `"guilds"`, `"users"`, `"members/<guildId>"`,
+ * `"messages/<channelId>"`, ...
+ *
+ * Values must survive a JSON round trip.
+ */
+
+/** Pluggable async key/value store for one collection. */
+export interface CacheAdapter<V = unknown> {
+  /** The value stored under `key`, or `undefined`. */
+  get(key: string): Promise<V | undefined>;
+  /** Store (replace) the value under `key`. */
+  set(key: string, value: V): Promise<void>;
+  /** Remove `key`. */
+  delete(key: string): Promise<void>;
+  /** Every stored value, in no particular order. */
+  values(): Promise<V[]>;
+  /** Remove every key. */
+  clear(): Promise<void>;
+}
+
+/** Creates the adapter for one collection `namespace` (e.g. `"members/<guildId>"`). */
+export type CacheAdapterFactory = (namespace: string) => CacheAdapter;
+
+/**
+ * Keeps values in a `Map` — the reference adapter. Values are cloned on the
+ * way in and out, like a store outside the process would.
+ */
+export class MemoryCacheAdapter<V = unknown> implements CacheAdapter<V> {
+  private readonly _values = new Map<string, V>();
+
+  async get(key: string): Promise<V | undefined> {
+    const value = this._values.get(key);
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    this._values.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this._values.delete(key);
+  }
+
+  async values(): Promise<V[]> {
+    return [...this._values.values()].map((value) => structuredClone(value));
+  }
+
+  async clear(): Promise<void> {
+    this._values.clear();
+  }
+
+  /** A factory handing out one `MemoryCacheAdapter` per namespace. */
+  static factory(): CacheAdapterFactory {
+    const adapters = new Map<string, MemoryCacheAdapter>();
+    return (namespace) => {
+      let adapter = adapters.get(namespace);
+      if (!adapter) {
+        adapter = new MemoryCacheAdapter();
+        adapters.set(namespace, adapter);
+      }
+      return adapter;
+    };
+  }
+}
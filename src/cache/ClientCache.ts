@@ -0,0 +1,477 @@
+/**
+ * Entity caches kept in sync from gateway events.
+ *
+ * `Client` owns one of these and exposes its collections (`bot.guilds`,
+ * `bot.members`, ...). It can also be bound to a bare `ShardManager`.
+ *
+ * Guild-scoped entities are stored per guild (`members.get(guildId)?.get(userId)`),
+ * messages per channel. Every collection is an `EntityCache` following the
+ * policy configured for its entity under `cache`; for guild- and channel-scoped
+ * entities the policy applies to each guild's (or channel's) collection. The arrays on a cached `Guild` (`roles`, `emojis`,
+ * `stickers`, `channels`) are kept in sync as well; `guild.members` is not —
+ * use `members` instead.
+ *
+ * Given an `ApiClient`, `guilds`, `channels`, `users`, `members` and `messages`
+ * can `fetch()` entities that aren't cached.
+ */
+
+import type { ShardManager } from "../gateway/ShardManager.js";
+import type { FluxorConfig } from "../config.js";
+import type { ApiClient } from "../api/ApiClient.js";
+import { ScopedCache } from "./ScopedCache.js";
+import { EntityCache, isEnabled, sweepIntervalOf, type CachePolicy } from "./EntityCache.js";
+import type { CacheAdapter, CacheAdapterFactory } from "./CacheAdapter.js";
+import { noopLogger, type Logger } from "../util/logger.js";
+import type {
+  ChannelEventData,
+  GuildEventData,
+  GuildMemberEventData,
+  MessageEventData,
+  MessageReactionEventData,
+  VoiceStateEventData,
+} from "../types/gateway.js";
+import type {
+  Channel,
+  Guild,
+  GuildEmoji,
+  GuildMember,
+  GuildRole,
+  GuildSticker,
+  Message,
+  User,
+  VoiceState,
+} from "../types/models.js";
+
+/** Default number of recent messages kept per channel. */
+export const DEFAULT_MESSAGE_CACHE_SIZE = 100;
+
+/** Cache policy per entity kind — the `cache` config option. */
+export interface CacheConfig {
+  guilds?: CachePolicy<Guild>;
+  channels?: CachePolicy<Channel>;
+  users?: CachePolicy<User>;
+  /** Applies to each guild's members. */
+  members?: CachePolicy<GuildMember>;
+  /** Applies to each guild's roles. */
+  roles?: CachePolicy<GuildRole>;
+  /** Applies to each guild's emojis. */
+  emojis?: CachePolicy<GuildEmoji>;
+  /** Applies to each guild's stickers. */
+  stickers?: CachePolicy<GuildSticker>;
+  /** Applies to each channel's messages. Default: `{ maxSize: messageCacheSize }`. */
+  messages?: CachePolicy<Message>;
+  /** Applies to each guild's voice states. */
+  voiceStates?: CachePolicy<VoiceState>;
+}
+
+type Sweepable = Pick<EntityCache<unknown>, "sweep">;
+
+export class ClientCache {
+  /** Guilds keyed by guild ID. */
+  public readonly guilds: EntityCache<Guild>;
+
+  /** Channels (guild and DM) keyed by channel ID. */
+  public readonly channels: EntityCache<Channel>;
+
+  /** Users keyed by user ID — populated opportunistically from events. */
+  public readonly users: EntityCache<User>;
+
+  /** Guild ID → user ID → member. */
+  public readonly members: ScopedCache<GuildMember>;
+
+  /** Guild ID → role ID → role. */
+  public readonly roles: ScopedCache<GuildRole>;
+
+  /** Guild ID → emoji ID → emoji. */
+  public readonly emojis: ScopedCache<GuildEmoji>;
+
+  /** Guild ID → sticker ID → sticker. */
+  public readonly stickers: ScopedCache<GuildSticker>;
+
+  /** Channel ID → message ID → message, least recently used first. */
+  public readonly messages: ScopedCache<Message>;
+
+  /** Guild ID → user ID → voice state, for users currently in a voice channel. */
+  public readonly voiceStates: ScopedCache<VoiceState>;
+
+  private readonly _policies: CacheConfig;
+  private readonly _adapterFactory: CacheAdapterFactory | undefined;
+  private readonly _log: Logger;
+  private readonly _sweepers: ReturnType<typeof setInterval>[] = [];
+  private _selfId: string | null = null;
+
+  /**
+   * @param config Cache options (`cache`, `messageCacheSize`, `cacheAdapter`) and the logger.
+   * @param api    Client the `fetch()` methods request uncached entities with.
+   *               Without one, `fetch()` rejects on a cache miss.
+   */
+  constructor(config?: FluxorConfig, api?: ApiClient) {
+    const messageCacheSize = config?.messageCacheSize ?? DEFAULT_MESSAGE_CACHE_SIZE;
+    this._policies = {
+      messages: messageCacheSize > 0 ? { maxSize: messageCacheSize } : false,
+      ...config?.cache,
+    };
+    this._adapterFactory = config?.cacheAdapter;
+    this._log = config?.logger ?? noopLogger;
+    this.guilds = this._create("guilds", this._policies.guilds, api && ((id) => api.getGuild(id)));
+    this.channels = this._create("channels", this._policies.channels, api && ((id) => api.getChannel(id)));
+    this.users = this._create("users", this._policies.users, api && ((id) => api.getUser(id)));
+    this.members = this._scopedCache(
+      "members",
+      this._policies.members,
+      api && ((guildId, userId) => api.getMember(guildId, userId)),
+    );
+    this.roles = this._scopedCache("roles", this._policies.roles);
+    this.emojis = this._scopedCache("emojis", this._policies.emojis);
+    this.stickers = this._scopedCache("stickers", this._policies.stickers);
+    this.messages = this._scopedCache(
+      "messages",
+      this._policies.messages,
+      api && ((channelId, messageId) => api.getMessage(channelId, messageId)),
+    );
+    this.voiceStates = this._scopedCache("voiceStates", this._policies.voiceStates);
+  }
+
+  /** Keep the caches in sync with events from `shards`, and start the TTL sweepers. */
+  bind(shards: ShardManager): this {
+    this.startSweepers();
+
+    shards.on("READY", (data) => {
+      this._selfId = data.user?.id ?? null;
+      if (data.user) this.users.set(data.user.id, data.user);
+      for (const guild of data.guilds ?? []) this._addGuild(guild);
+      for (const channel of data.private_channels ?? []) this.channels.set(channel.id, channel);
+    });
+
+    // ── Guilds ──
+    shards.on("GUILD_CREATE", (guild) => this._addGuild(guild));
+    shards.on("GUILD_UPDATE", (guild) => this._updateGuild(guild));
+    shards.on("GUILD_DELETE", (data) => {
+      if (data.unavailable) {
+        // Outage — keep the data, it comes back with the next GUILD_CREATE.
+        this._patch(this.guilds, data.id, (guild) => (guild.unavailable = true));
+        return;
+      }
+      this._removeGuild(data.id);
+    });
+
+    // ── Members ──
+    shards.on("GUILD_MEMBER_ADD", (data) => {
+      this._setMember(data.guild_id, { roles: [], joined_at: "", ...toMember(data) });
+      this._patch(this.guilds, data.guild_id, (guild) => {
+        if (guild.member_count !== undefined) guild.member_count++;
+      });
+    });
+    shards.on("GUILD_MEMBER_UPDATE", (data) => {
+      const userId = data.user?.id;
+      const existing = userId ? this.members.get(data.guild_id)?.get(userId) : undefined;
+      this._setMember(data.guild_id, { roles: [], joined_at: "", ...existing, ...toMember(data) });
+    });
+    shards.on("GUILD_MEMBER_REMOVE", (data) => {
+      if (!data.guild_id) return;
+      this.members.get(data.guild_id)?.delete(data.id);
+      this._patch(this.guilds, data.guild_id, (guild) => {
+        if (guild.member_count !== undefined) guild.member_count--;
+      });
+    });
+    shards.on("GUILD_MEMBERS_CHUNK", (chunk) => {
+      for (const member of chunk.members ?? []) this._setMember(chunk.guild_id, member);
+    });
+
+    // ── Roles, emojis, stickers ──
+    shards.on("GUILD_ROLE_CREATE", ({ guild_id, role }) => this._setRoles(guild_id, [role]));
+    shards.on("GUILD_ROLE_UPDATE", ({ guild_id, role }) => this._setRoles(guild_id, [role]));
+    shards.on("GUILD_ROLE_UPDATE_BULK", ({ guild_id, roles }) => this._setRoles(guild_id, roles));
+    shards.on("GUILD_ROLE_DELETE", ({ guild_id, role_id }) => {
+      const roles = this.roles.get(guild_id);
+      roles?.delete(role_id);
+      if (roles) this._patch(this.guilds, guild_id, (guild) => (guild.roles = [...roles.values()]));
+      const members = this.members.get(guild_id);
+      for (const [userId, member] of members ?? []) {
+        if (!member.roles.includes(role_id)) continue;
+        members!.set(userId, { ...member, roles: member.roles.filter((id) => id !== role_id) });
+      }
+    });
+    shards.on("GUILD_EMOJIS_UPDATE", ({ guild_id, emojis }) => {
+      this._replace(this.emojis, guild_id, emojis);
+      this._patch(this.guilds, guild_id, (guild) => (guild.emojis = emojis));
+    });
+    shards.on("GUILD_STICKERS_UPDATE", ({ guild_id, stickers }) => {
+      this._replace(this.stickers, guild_id, stickers);
+      this._patch(this.guilds, guild_id, (guild) => (guild.stickers = stickers));
+    });
+
+    // ── Channels ──
+    shards.on("CHANNEL_CREATE", (channel) => this._setChannel(channel));
+    shards.on("CHANNEL_UPDATE", (channel) => this._setChannel(channel));
+    shards.on("CHANNEL_UPDATE_BULK", ({ channels }) => {
+      for (const channel of channels) this._setChannel(channel);
+    });
+    shards.on("CHANNEL_DELETE", (channel) => this._removeChannel(channel));
+
+    // ── Messages ──
+    shards.on("MESSAGE_CREATE", (data) => this._addMessage(data));
+    shards.on("MESSAGE_UPDATE", (data) => {
+      this._patch(this.messages.get(data.channel_id), data.id, (message) => Object.assign(message, data));
+      if (data.author) this.users.set(data.author.id, data.author);
+    });
+    shards.on("MESSAGE_DELETE", (data) => this._removeMessages(data, [data.id]));
+    shards.on("MESSAGE_DELETE_BULK", (data) => this._removeMessages(data, data.ids));
+    shards.on("MESSAGE_REACTION_ADD", (data) => this._react(data, 1));
+    shards.on("MESSAGE_REACTION_REMOVE", (data) => this._react(data, -1));
+    shards.on("MESSAGE_REACTION_REMOVE_ALL", (data) => {
+      if (!data.channel_id) return;
+      this._patch(this.messages.get(data.channel_id), data.id, (message) => (message.reactions = []));
+    });
+    shards.on("MESSAGE_REACTION_REMOVE_EMOJI", (data) => {
+      this._patch(this.messages.get(data.channel_id), data.message_id, (message) => {
+        message.reactions = message.reactions?.filter((r) => !sameEmoji(r.emoji, data.emoji));
+      });
+    });
+
+    // ── Voice ──
+    shards.on("VOICE_STATE_UPDATE", (data) => this._setVoiceState(data));
+
+    // ── Users ──
+    shards.on("USER_UPDATE", (user) => this.users.set(user.id, user));
+
+    return this;
+  }
+
+  /** Recent messages cached for `channelId`, oldest first. */
+  recentMessages(channelId: string): Message[] {
+    return [...(this.messages.get(channelId)?.values() ?? [])];
+  }
+
+  /**
+   * Run every sweeper now. Without `ttl` policies this removes nothing.
+   *
+   * @returns The number of entries removed.
+   */
+  sweep(): number {
+    let removed = 0;
+    for (const cache of this._allCaches()) removed += cache.sweep();
+    return removed;
+  }
+
+  /** Start the TTL sweepers, unless they're running. `clear()` stops them. */
+  startSweepers(): void {
+    if (this._sweepers.length > 0) return;
+    const p = this._policies;
+    const kinds: [number, () => Iterable<Sweepable>][] = [
+      [sweepIntervalOf(p.guilds), () => [this.guilds]],
+      [sweepIntervalOf(p.channels), () => [this.channels]],
+      [sweepIntervalOf(p.users), () => [this.users]],
+      [sweepIntervalOf(p.members), () => this.members.values()],
+      [sweepIntervalOf(p.roles), () => this.roles.values()],
+      [sweepIntervalOf(p.emojis), () => this.emojis.values()],
+      [sweepIntervalOf(p.stickers), () => this.stickers.values()],
+      [sweepIntervalOf(p.messages), () => this.messages.values()],
+      [sweepIntervalOf(p.voiceStates), () => this.voiceStates.values()],
+    ];
+    for (const [interval, caches] of kinds) {
+      if (interval <= 0) continue;
+      const sweeper = setInterval(() => {
+        for (const cache of caches()) cache.sweep();
+      }, interval);
+      sweeper.unref();
+      this._sweepers.push(sweeper);
+    }
+  }
+
+  /** Empty every collection and stop the TTL sweepers, until `startSweepers()`. */
+  clear(): void {
+    for (const sweeper of this._sweepers.splice(0)) clearInterval(sweeper);
+    this._selfId = null;
+    for (const collection of [
+      this.guilds,
+      this.channels,
+      this.users,
+      this.members,
+      this.roles,
+      this.emojis,
+      this.stickers,
+      this.messages,
+      this.voiceStates,
+    ]) {
+      collection.clear();
+    }
+  }
+
+  // ── Guilds ──────────────────────────────────────────────────────────────
+
+  private _addGuild(guild: Guild | GuildEventData): void {
+    const { members, ...rest } = guild;
+    this.guilds.set(guild.id, rest);
+    if (guild.unavailable) return;
+
+    for (const channel of guild.channels ?? []) this.channels.set(channel.id, { ...channel, guild_id: guild.id });
+    this._replace(this.roles, guild.id, guild.roles ?? []);
+    this._replace(this.emojis, guild.id, guild.emojis ?? []);
+    this._replace(this.stickers, guild.id, guild.stickers ?? []);
+    for (const member of members ?? []) this._setMember(guild.id, member);
+
+    const voiceStates = (guild as GuildEventData).voice_states as VoiceState[] | undefined;
+    for (const state of voiceStates ?? []) this._setVoiceState({ ...state, guild_id: guild.id });
+  }
+
+  private _updateGuild(update: GuildEventData): void {
+    // GUILD_UPDATE omits channels and members — merge instead of replacing.
+    const { members: _members, ...rest } = update;
+    const guild = { ...this.guilds.get(update.id), ...rest };
+    this.guilds.set(update.id, guild);
+    if (update.roles) this._replace(this.roles, update.id, update.roles);
+    if (update.emojis) this._replace(this.emojis, update.id, update.emojis);
+    if (update.stickers) this._replace(this.stickers, update.id, update.stickers);
+  }
+
+  private _removeGuild(guildId: string): void {
+    this.guilds.delete(guildId);
+    for (const channel of this.channels.values()) {
+      if (channel.guild_id === guildId) this._removeChannel(channel);
+    }
+    for (const outer of [this.members, this.roles, this.emojis, this.stickers, this.voiceStates]) {
+      this._drop(outer, guildId);
+    }
+  }
+
+  private _setMember(guildId: string, member: GuildMember): void {
+    if (!member.user) return;
+    this.members.scope(guildId).set(member.user.id, member);
+    this.users.set(member.user.id, member.user);
+  }
+
+  private _setRoles(guildId: string, roles: GuildRole[]): void {
+    const guildRoles = this.roles.scope(guildId);
+    for (const role of roles) guildRoles.set(role.id, role);
+    this._patch(this.guilds, guildId, (guild) => (guild.roles = [...guildRoles.values()]));
+  }
+
+  // ── Channels ────────────────────────────────────────────────────────────
+
+  private _setChannel(channel: Channel | ChannelEventData): void {
+    this.channels.set(channel.id, channel);
+    this._patch(this.guilds, channel.guild_id, (guild) => {
+      guild.channels = [...(guild.channels ?? []).filter((c) => c.id !== channel.id), channel];
+    });
+  }
+
+  private _removeChannel(channel: Channel): void {
+    this.channels.delete(channel.id);
+    this._drop(this.messages, channel.id);
+    this._patch(this.guilds, channel.guild_id, (guild) => {
+      guild.channels = guild.channels?.filter((c) => c.id !== channel.id);
+    });
+  }
+
+  // ── Messages ────────────────────────────────────────────────────────────
+
+  private _addMessage(data: MessageEventData): void {
+    if (data.author) this.users.set(data.author.id, data.author);
+    this._patch(this.channels, data.channel_id, (channel) => (channel.last_message_id = data.id));
+    const channelMessages = this.messages.scope(data.channel_id);
+    channelMessages.set(data.id, data as unknown as Message);
+  }
+
+  private _removeMessages(data: { channel_id?: string }, ids: string[]): void {
+    const channelMessages = data.channel_id ? this.messages.get(data.channel_id) : undefined;
+    if (!channelMessages) return;
+    for (const id of ids) channelMessages.delete(id);
+  }
+
+  private _react(data: MessageReactionEventData, delta: 1 | -1): void {
+    this._patch(this.messages.get(data.channel_id), data.message_id, (message) => {
+      const reactions = (message.reactions ??= []);
+      const me = data.user_id === this._selfId;
+      const existing = reactions.find((r) => sameEmoji(r.emoji, data.emoji));
+      if (existing) {
+        existing.count += delta;
+        if (me) existing.me = delta > 0;
+        if (existing.count <= 0) reactions.splice(reactions.indexOf(existing), 1);
+      } else if (delta > 0) {
+        reactions.push({ count: 1, me, emoji: data.emoji });
+      }
+    });
+  }
+
+  // ── Voice ───────────────────────────────────────────────────────────────
+
+  private _setVoiceState(data: VoiceStateEventData): void {
+    if (!data.guild_id) return;
+    const { member, ...state } = data;
+    if (member) this._setMember(data.guild_id, member);
+
+    const guildStates = this.voiceStates.scope(data.guild_id);
+    if (state.channel_id) guildStates.set(state.user_id, state);
+    else guildStates.delete(state.user_id);
+  }
+
+  // ── Policies ────────────────────────────────────────────────────────────
+
+  /** A collection with its policy and, if configured, the adapter for `namespace`. */
+  private _create<V>(
+    namespace: string,
+    policy: CachePolicy<V> | undefined,
+    fetch?: (key: string) => Promise<V>,
+  ): EntityCache<V> {
+    const adapter = this._adapterFactory && isEnabled(policy) ? this._adapterFactory(namespace) : undefined;
+    return new EntityCache<V>(policy, {
+      adapter: adapter as CacheAdapter<V> | undefined,
+      onAdapterError: (err) => this._log.warn(`Cache adapter write for "${namespace}" failed`, err),
+      fetch,
+    });
+  }
+
+  /** Per-guild (or per-channel) collections named `name`, each following `policy`. */
+  private _scopedCache<V>(
+    name: string,
+    policy: CachePolicy<V> | undefined,
+    fetch?: (scope: string, key: string) => Promise<V>,
+  ): ScopedCache<V> {
+    return new ScopedCache((scope) => this._create(`${name}/${scope}`, policy), fetch);
+  }
+
+  /** Make the collection for `scope` hold exactly `items`. */
+  private _replace<V extends { id: string }>(outer: ScopedCache<V>, scope: string, items: V[]): void {
+    const inner = outer.scope(scope);
+    const keep = new Set(items.map((item) => item.id));
+    for (const id of [...inner.keys()]) {
+      if (!keep.has(id)) inner.delete(id);
+    }
+    for (const item of items) inner.set(item.id, item);
+  }
+
+  /** Forget the collection for `scope`, here and in its adapter. */
+  private _drop(outer: Map<string, Pick<EntityCache<unknown>, "purge">>, scope: string): void {
+    const inner = outer.get(scope);
+    if (!inner) return;
+    outer.delete(scope);
+    void inner.purge();
+  }
+
+  /** Mutate a cached value and write it back, so adapters see the change. */
+  private _patch<V>(cache: EntityCache<V> | undefined, key: string | undefined, mutate: (value: V) => void): void {
+    const value = key === undefined ? undefined : cache?.get(key);
+    if (value === undefined) return;
+    mutate(value);
+    cache!.set(key!, value);
+  }
+
+  private *_allCaches(): Iterable<Sweepable> {
+    yield this.guilds;
+    yield this.channels;
+    yield this.users;
+    for (const outer of [this.members, this.roles, this.emojis, this.stickers, this.messages, this.voiceStates]) {
+      yield* outer.values();
+    }
+  }
+}
+
+function toMember(data: GuildMemberEventData): Partial<GuildMember> {
+  const { guild_id: _guildId, ...member } = data;
+  return member as Partial<GuildMember>;
+}
+
+function sameEmoji(a: { id?: string | null; name?: string | null }, b: { id?: string | null; name?: string | null }) {
+  return a.id ? a.id === b.id : a.name === b.name;
+}
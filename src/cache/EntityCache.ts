@@ -0,0 +1,224 @@
+/**
+ * A `Map` with a cache policy: disabled, unbounded, LRU-bounded, TTL-swept
+ * and/or filtered. Drop-in for the plain `Map`s `ClientCache` used to expose.
+ *
+ * With a `CacheAdapter`, every `set()` / `delete()` is also written through
+ * to the adapter, in order. The policy's `maxSize` and `ttl` only bound the
+ * in-process copy — evicted entries stay in the adapter and can be read back
+ * with `resolve()`.
+ *
+ * With a fetcher, `fetch()` resolves an entity from the cache and falls back
+ * to the REST API, sharing one request between concurrent callers.
+ */
+
+import type { CacheAdapter } from "./CacheAdapter.js";
+
+/** How one kind of entity is cached. */
+export interface CacheOptions<V> {
+  /** Maximum entries; the least recently used entry is evicted first. Default: unbounded. */
+  maxSize?: number;
+  /** Entries not written for this many ms are removed by the sweeper. Default: never. */
+  ttl?: number;
+  /** How often (ms) the sweeper runs. Default: `ttl`. */
+  sweepInterval?: number;
+  /** Only cache values this returns `true` for — e.g. `(member) => member.roles.length > 0`. */
+  filter?: (value: V, key: string) => boolean;
+}
+
+/** `false` disables the cache, `true` (the default) caches everything forever. */
+export type CachePolicy<V> = boolean | CacheOptions<V>;
+
+/** Options for `fetch()`. */
+export interface FetchOptions {
+  /** Skip the cache and always request the entity. Default: `false`. */
+  force?: boolean;
+  /** Store the fetched entity. Default: `true`. */
+  cache?: boolean;
+}
+
+export interface EntityCacheBackend<V> {
+  /** Backend every write is mirrored to. */
+  adapter?: CacheAdapter<V>;
+  /** Called when an adapter write fails. Writes are never retried. */
+  onAdapterError?: (err: unknown) => void;
+  /** Requests an entity that isn't cached — used by `fetch()`. */
+  fetch?: (key: string) => Promise<V>;
+}
+
+export class EntityCache<V> extends Map<string, V> {
+  /** `false` when the policy disables caching — `set()` is then a no-op. */
+  public readonly enabled: boolean;
+  public readonly maxSize: number;
+  public readonly ttl: number;
+
+  /** Backend writes are mirrored to, if any. */
+  public readonly adapter: CacheAdapter<V> | undefined;
+
+  private readonly _filter: ((value: V, key: string) => boolean) | undefined;
+  private readonly _onAdapterError: ((err: unknown) => void) | undefined;
+  private readonly _fetch: ((key: string) => Promise<V>) | undefined;
+  private readonly _pending = new Map<string, Promise<V>>();
+  private readonly _writtenAt = new Map<string, number>();
+  private _writes: Promise<void> = Promise.resolve();
+
+  constructor(policy: CachePolicy<V> = true, backend?: EntityCacheBackend<V>) {
+    super();
+    this.adapter = backend?.adapter;
+    this._onAdapterError = backend?.onAdapterError;
+    this._fetch = backend?.fetch;
+    const options = typeof policy === "object" ? policy : {};
+    this.enabled = isEnabled(policy);
+    this.maxSize = options.maxSize ?? Infinity;
+    this.ttl = options.ttl ?? 0;
+    this._filter = options.filter;
+  }
+
+  /** Get a value and, when bounded, mark it as most recently used. */
+  override get(key: string): V | undefined {
+    const value = super.get(key);
+    if (value !== undefined && this.maxSize !== Infinity) {
+      super.delete(key);
+      super.set(key, value);
+    }
+    return value;
+  }
+
+  override set(key: string, value: V): this {
+    if (!this.enabled) return this;
+    if (this._filter && !this._filter(value, key)) {
+      this.delete(key);
+      return this;
+    }
+    this._remember(key, value);
+    this._persist((adapter) => adapter.set(key, value));
+    return this;
+  }
+
+  /** Remove `key` here and from the adapter. */
+  override delete(key: string): boolean {
+    this._persist((adapter) => adapter.delete(key));
+    return this._forget(key);
+  }
+
+  /** Empty the in-process copy. The adapter is left alone — see `purge()`. */
+  override clear(): void {
+    this._writtenAt.clear();
+    super.clear();
+  }
+
+  /**
+   * Look `key` up here, then in the adapter. A value found in the adapter is
+   * kept in memory again.
+   */
+  async resolve(key: string): Promise<V | undefined> {
+    const cached = this.get(key);
+    if (cached !== undefined || !this.adapter || !this.enabled) return cached;
+    await this.flush();
+    const stored = await this.adapter.get(key);
+    if (stored !== undefined && !this.has(key)) this._remember(key, stored);
+    return stored;
+  }
+
+  /**
+   * Resolve `key` from the cache (see `resolve()`), requesting it if it isn't
+   * there. Concurrent calls for the same key share one request.
+   */
+  fetch(key: string, options?: FetchOptions): Promise<V> {
+    const load = this._fetch;
+    if (!load) return Promise.reject(new Error("This cache has no fetcher."));
+    return fetchThrough(this, key, options, () => shared(this._pending, key, () => load(key)));
+  }
+
+  /** Empty this cache and its adapter. */
+  async purge(): Promise<void> {
+    this.clear();
+    this._persist((adapter) => adapter.clear());
+    await this.flush();
+  }
+
+  /** Resolves once every pending adapter write has settled. */
+  flush(): Promise<void> {
+    return this._writes;
+  }
+
+  /**
+   * Remove entries older than `ttl`, plus any `predicate` matches, from the
+   * in-process copy.
+   *
+   * @returns The number of entries removed.
+   */
+  sweep(predicate?: (value: V, key: string) => boolean): number {
+    const expiredBefore = this.ttl > 0 ? Date.now() - this.ttl : -Infinity;
+    let removed = 0;
+    for (const [key, value] of this) {
+      if ((this._writtenAt.get(key) ?? Infinity) < expiredBefore || predicate?.(value, key)) {
+        this._forget(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // ── internals ───────────────────────────────────────────────────────────
+
+  /** Store in memory only, evicting the least recently used entries past `maxSize`. */
+  private _remember(key: string, value: V): void {
+    // Re-insert so iteration order stays least → most recently used.
+    super.delete(key);
+    super.set(key, value);
+    if (this.ttl > 0) this._writtenAt.set(key, Date.now());
+    while (this.size > this.maxSize) {
+      this._forget(this.keys().next().value!);
+    }
+  }
+
+  /** Remove from memory only. */
+  private _forget(key: string): boolean {
+    this._writtenAt.delete(key);
+    return super.delete(key);
+  }
+
+  /** Queue an adapter write behind the previous ones so they land in order. */
+  private _persist(write: (adapter: CacheAdapter<V>) => Promise<void>): void {
+    const adapter = this.adapter;
+    if (!adapter) return;
+    this._writes = this._writes.then(() => write(adapter)).catch((err) => this._onAdapterError?.(err));
+  }
+}
+
+/** `fetch()` for `cache`, with `load` requesting the entity. */
+export async function fetchThrough<V>(
+  cache: EntityCache<V>,
+  key: string,
+  { force = false, cache: store = true }: FetchOptions = {},
+  load: () => Promise<V>,
+): Promise<V> {
+  if (!force) {
+    const cached = await cache.resolve(key);
+    if (cached !== undefined) return cached;
+  }
+  const value = await load();
+  if (store) cache.set(key, value);
+  return value;
+}
+
+/** Run `load`, or join the call already running for `key`. */
+export function shared<V>(pending: Map<string, Promise<V>>, key: string, load: () => Promise<V>): Promise<V> {
+  let request = pending.get(key);
+  if (!request) {
+    request = load().finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+/** Whether `policy` caches anything at all. */
+export function isEnabled<V>(policy: CachePolicy<V> | undefined): boolean {
+  return policy !== false && !(typeof policy === "object" && policy.maxSize === 0);
+}
+
+/** The interval a policy's sweeper runs at, or `0` if it has none. */
+export function sweepIntervalOf<V>(policy: CachePolicy<V> | undefined): number {
+  if (typeof policy !== "object" || !policy.ttl) return 0;
+  return policy.sweepInterval ?? policy.ttl;
+}
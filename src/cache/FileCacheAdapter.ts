@@ -0,0 +1,88 @@
+/**
+ * Reference `CacheAdapter` that shares cached entities between processes on
+ * one host.
+ *
+ * Each key is a small JSON file in the adapter's directory; writes go to a
+ * temporary file first and are renamed into place, so readers never see a
+ * partial entity. `FileCacheAdapter.factory(root)` maps each collection
+ * namespace to a subdirectory of `root` (`root/guilds`, `root/members/<guildId>`, ...).
+ */
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { CacheAdapter, CacheAdapterFactory } from "./CacheAdapter.js";
+
+let tmpCounter = 0;
+
+export class FileCacheAdapter<V = unknown> implements CacheAdapter<V> {
+  public readonly directory: string;
+
+  private _ready: Promise<unknown> | null = null;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    return this._read(this._path(key));
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    await this._ensureDir();
+    const path = this._path(key);
+    const tmp = `${path}.${process.pid}.${tmpCounter++}.tmp`;
+    await writeFile(tmp, JSON.stringify(value));
+    await rename(tmp, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this._path(key), { force: true });
+  }
+
+  async values(): Promise<V[]> {
+    const values: V[] = [];
+    for (const file of await this._files()) {
+      const value = await this._read(join(this.directory, file));
+      if (value !== undefined) values.push(value);
+    }
+    return values;
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this._files()) {
+      await rm(join(this.directory, file), { force: true });
+    }
+  }
+
+  /** A factory mapping each namespace to a subdirectory of `root`. */
+  static factory(root: string): CacheAdapterFactory {
+    return (namespace) => new FileCacheAdapter(join(root, ...namespace.split("/").map(encodeURIComponent)));
+  }
+
+  // ── internals ───────────────────────────────────────────────────────────
+
+  private _path(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  private _ensureDir(): Promise<unknown> {
+    this._ready ??= mkdir(this.directory, { recursive: true });
+    return this._ready;
+  }
+
+  private async _files(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter((file) => file.endsWith(".json"));
+    } catch {
+      return [];
+    }
+  }
+
+  /** Read one entity file; a missing file (deleted concurrently) reads as `undefined`. */
+  private async _read(path: string): Promise<V | undefined> {
+    try {
+      return JSON.parse(await readFile(path, "utf8")) as V;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Collections of one entity kind, one `EntityCache` per guild or channel —
+ * `members.get(guildId)?.get(userId)`.
+ *
+ * Scoped collections are created on first write. Disabled ones are never
+ * stored, so a disabled kind doesn't fill the map with empty entries.
+ */
+
+import { fetchThrough, shared, type EntityCache, type FetchOptions } from "./EntityCache.js";
+
+export class ScopedCache<V> extends Map<string, EntityCache<V>> {
+  private readonly _create: (scope: string) => EntityCache<V>;
+  private readonly _fetch: ((scope: string, key: string) => Promise<V>) | undefined;
+  private readonly _pending = new Map<string, Promise<V>>();
+
+  /**
+   * @param create Creates the collection for a scope.
+   * @param fetch  Requests an entity that isn't cached — used by `fetch()`.
+   */
+  constructor(create: (scope: string) => EntityCache<V>, fetch?: (scope: string, key: string) => Promise<V>) {
+    super();
+    this._create = create;
+    this._fetch = fetch;
+  }
+
+  /** The collection for `scope`, created if needed. */
+  scope(scope: string): EntityCache<V> {
+    let inner = this.get(scope);
+    if (!inner) {
+      inner = this._create(scope);
+      if (inner.enabled) this.set(scope, inner);
+    }
+    return inner;
+  }
+
+  /**
+   * Resolve `key` in `scope` from the cache, requesting it if it isn't there.
+   * Concurrent calls for the same entity share one request.
+   */
+  fetch(scope: string, key: string, options?: FetchOptions): Promise<V> {
+    const load = this._fetch;
+    if (!load) return Promise.reject(new Error("This cache has no fetcher."));
+    return fetchThrough(this.scope(scope), key, options, () =>
+      shared(this._pending, `${scope}/${key}`, () => load(scope, key)),
+    );
+  }
+}
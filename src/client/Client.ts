@@ -1,98 +1,143 @@
 /**
- * High-level convenience class that bundles an `ApiClient` and a `GatewayClient`
+ * High-level convenience class that bundles an `ApiClient` and a `ShardManager`
  * under a single interface — the recommended way to build a Fluxor bot.
+ *
+ * Without `shardCount` the manager runs one unsharded `GatewayClient`.
+ *
+ * With `structures: true`, message, channel, guild, member, role and user
+ * events carry structure classes (`msg.reply()`, `member.ban()`, ...) instead
+ * of raw objects; the type parameter tracks the switch.
  */
 
-import { ApiClient } from "../api/ApiClient.js";
-import { GatewayClient } from "../gateway/GatewayClient.js";
+import { ApiClient, type ApiClientEvents } from "../api/ApiClient.js";
+import type {
+  FetchGuildMembersOptions,
+  GatewayClient,
+  GatewayClientEvents,
+  GuildMembersResult,
+} from "../gateway/GatewayClient.js";
+import { ShardManager, type ShardListener } from "../gateway/ShardManager.js";
+import { EVENT_INTENTS, intentNames, isEventDelivered } from "../gateway/intents.js";
 import type { FluxorConfig } from "../config.js";
+import { noopLogger, type Logger } from "../util/logger.js";
+import { ClientCache } from "../cache/ClientCache.js";
+import type { EntityCache } from "../cache/EntityCache.js";
+import type { ScopedCache } from "../cache/ScopedCache.js";
 import type { GatewayEvents } from "../types/gateway.js";
-import type { User, Guild, Channel, CreateMessagePayload, Message } from "../types/models.js";
-
-type EventMap = GatewayEvents & {
-  raw: { event: string; data: unknown };
-  close: { code: number; reason: string };
-  error: Error;
-  debug: string;
-  HEARTBEAT_ACK: number;
-};
+import { hasStructure, toStructure, type StructureEvents } from "../structures/events.js";
+import type {
+  User,
+  Guild,
+  GuildMember,
+  GuildRole,
+  GuildEmoji,
+  GuildSticker,
+  Channel,
+  CreateMessagePayload,
+  Message,
+  VoiceState,
+} from "../types/models.js";
+
+type EventMap = GatewayClientEvents & ApiClientEvents;
+
+/** Payload of `K` — a structure class if `Structured` and the event carries one. */
+export type ClientEventPayload<K extends keyof EventMap, Structured extends boolean> = Structured extends true
+  ? K extends keyof StructureEvents
+    ? StructureEvents[K]
+    : EventMap[K]
+  : EventMap[K];
 
 type Listener<T> = (payload: T) => void;
 
-export class Client {
+/** REST events carry only the payload; gateway events also carry the shard ID. */
+type ClientListener<K extends keyof EventMap, Structured extends boolean> = K extends keyof ApiClientEvents
+  ? Listener<ClientEventPayload<K, Structured>>
+  : ShardListener<ClientEventPayload<K, Structured>>;
+
+/** A listener as the ApiClient or the shards take it — with raw payloads. */
+type RawListener<K extends keyof EventMap> = ClientListener<K, false>;
+
+function isApiEvent(event: keyof EventMap): event is keyof ApiClientEvents {
+  return event === "rateLimited";
+}
+
+export class Client<Structured extends boolean = false> {
   /** REST API client — call any Fluxor endpoint. */
   public readonly api: ApiClient;
 
-  /** WebSocket gateway client — receives real-time events. */
-  public readonly gateway: GatewayClient;
+  /** Gateway shards — receive real-time events. */
+  public readonly shards: ShardManager;
 
   // ── Caches ─────────────────────────────────────────────────────────────
 
+  /** Entity caches, kept in sync from gateway events. The collections below are shorthands. */
+  public readonly cache: ClientCache;
+
   /** The bot's own user object, populated after READY. */
   public user: User | null = null;
 
-  /** Guild cache keyed by guild ID — populated from READY and maintained by gateway events. */
-  public readonly guilds: Map<string, Guild> = new Map();
+  /** Guild cache keyed by guild ID. `guilds.fetch(id)` falls back to the API. */
+  public readonly guilds: EntityCache<Guild>;
 
-  /** Channel cache keyed by channel ID — populated from READY and maintained by gateway events. */
-  public readonly channels: Map<string, Channel> = new Map();
+  /** Channel cache keyed by channel ID. */
+  public readonly channels: EntityCache<Channel>;
 
   /** User cache keyed by user ID — populated opportunistically from gateway events. */
-  public readonly users: Map<string, User> = new Map();
+  public readonly users: EntityCache<User>;
+
+  /** Member cache: guild ID → user ID → member. `members.fetch(guildId, userId)` falls back to the API. */
+  public readonly members: ScopedCache<GuildMember>;
+
+  /** Role cache: guild ID → role ID → role. */
+  public readonly roles: ScopedCache<GuildRole>;
+
+  /** Emoji cache: guild ID → emoji ID → emoji. */
+  public readonly emojis: ScopedCache<GuildEmoji>;
+
+  /** Sticker cache: guild ID → sticker ID → sticker. */
+  public readonly stickers: ScopedCache<GuildSticker>;
+
+  /** Recent messages: channel ID → message ID → message. */
+  public readonly messages: ScopedCache<Message>;
+
+  /** Voice states: guild ID → user ID → state, for users in a voice channel. */
+  public readonly voiceStates: ScopedCache<VoiceState>;
 
   // ── Ready state ────────────────────────────────────────────────────────
 
   private _readyAt: Date | null = null;
   private _shutdownHandlers: (() => void)[] = [];
 
-  constructor(token: string, config?: FluxorConfig) {
-    this.api = new ApiClient(token, config);
-    this.gateway = new GatewayClient(token, config);
+  private readonly _log: Logger;
+  private readonly _intents: number | undefined;
+  private readonly _warnedEvents = new Set<string>();
+  private readonly _structures: boolean;
+  /** Listener → event → the wrapper that converts payloads to structures for it. */
+  private readonly _wrappers = new WeakMap<object, Map<keyof EventMap, ShardListener<unknown>>>();
 
-    // ── Auto-populate caches from gateway events ──
-    this.gateway.on("READY", (data) => {
+  constructor(token: string, config?: FluxorConfig & { structures?: Structured }) {
+    this.api = new ApiClient(token, config);
+    this.shards = new ShardManager(token, config);
+    this._log = config?.logger ?? noopLogger;
+    this._intents = config?.intents;
+    this._structures = config?.structures ?? false;
+
+    this.cache = new ClientCache(config, this.api).bind(this.shards);
+    this.guilds = this.cache.guilds;
+    this.channels = this.cache.channels;
+    this.users = this.cache.users;
+    this.members = this.cache.members;
+    this.roles = this.cache.roles;
+    this.emojis = this.cache.emojis;
+    this.stickers = this.cache.stickers;
+    this.messages = this.cache.messages;
+    this.voiceStates = this.cache.voiceStates;
+
+    this.shards.on("READY", (data) => {
       this.user = data.user ?? null;
       this._readyAt = new Date();
-
-      if (data.user) this.users.set(data.user.id, data.user);
-      if (data.guilds) {
-        for (const g of data.guilds) {
-          this.guilds.set(g.id, g);
-          if (g.channels) {
-            for (const c of g.channels) this.channels.set(c.id, c);
-          }
-        }
-      }
-      if (data.private_channels) {
-        for (const c of data.private_channels) this.channels.set(c.id, c);
-      }
     });
-
-    this.gateway.on("GUILD_CREATE", (guild) => {
-      this.guilds.set(guild.id, guild);
-      if (guild.channels) {
-        for (const c of guild.channels) this.channels.set(c.id, c);
-      }
-    });
-    this.gateway.on("GUILD_UPDATE", (guild) => {
-      this.guilds.set(guild.id, guild);
-    });
-    this.gateway.on("GUILD_DELETE", (data) => {
-      this.guilds.delete(data.id);
-    });
-
-    this.gateway.on("CHANNEL_CREATE", (ch) => {
-      this.channels.set(ch.id, ch);
-    });
-    this.gateway.on("CHANNEL_UPDATE", (ch) => {
-      this.channels.set(ch.id, ch);
-    });
-    this.gateway.on("CHANNEL_DELETE", (ch) => {
-      this.channels.delete(ch.id);
-    });
-
-    this.gateway.on("USER_UPDATE", (user) => {
-      this.users.set(user.id, user);
+    this.shards.on("USER_UPDATE", (user) => {
       if (this.user && user.id === this.user.id) {
         this.user = user;
       }
@@ -101,6 +146,14 @@ export class Client {
 
   // ── Convenience getters ───────────────────────────────────────────────
 
+  /**
+   * WebSocket gateway client — the lowest-ID shard run by this client.
+   * Use `shards` to reach the others.
+   */
+  get gateway(): GatewayClient {
+    return this.shards.shards[0]!;
+  }
+
   /** Whether the client has received a READY event. */
   get isReady(): boolean {
     return this._readyAt !== null;
@@ -116,37 +169,80 @@ export class Client {
     return this._readyAt ? Date.now() - this._readyAt.getTime() : -1;
   }
 
-  /** Shortcut for `this.gateway.ping`. */
+  /** Average heartbeat latency across shards (`shards.ping`). */
   get ping(): number {
-    return this.gateway.ping;
+    return this.shards.ping;
   }
 
-  // ── Proxy event helpers to the gateway ────────────────────────────────
+  // ── Proxy event helpers to the shards / API client ────────────────────
 
-  on<K extends keyof EventMap>(event: K, listener: Listener<EventMap[K]>): this {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.gateway.on(event as any, listener as any);
+  /** Subscribe to an event. Gateway listeners also receive the shard ID. */
+  on<K extends keyof EventMap>(event: K, listener: ClientListener<K, Structured>): this {
+    this._checkIntents(event);
+    this._forward("on", event, this._wrap(event, listener));
     return this;
   }
 
-  once<K extends keyof EventMap>(event: K, listener: Listener<EventMap[K]>): this {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.gateway.once(event as any, listener as any);
+  once<K extends keyof EventMap>(event: K, listener: ClientListener<K, Structured>): this {
+    this._checkIntents(event);
+    this._forward("once", event, this._wrap(event, listener));
     return this;
   }
 
-  off<K extends keyof EventMap>(event: K, listener: Listener<EventMap[K]>): this {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.gateway.off(event as any, listener as any);
+  off<K extends keyof EventMap>(event: K, listener: ClientListener<K, Structured>): this {
+    const wrapped = this._wrappers.get(listener)?.get(event) as RawListener<K> | undefined;
+    this._forward("off", event, wrapped ?? (listener as RawListener<K>));
     return this;
   }
 
-  /** Proxy for `gateway.waitFor`. */
+  /** The listener to register for `event` — converting payloads to structures when enabled. */
+  private _wrap<K extends keyof EventMap>(event: K, listener: ClientListener<K, Structured>): RawListener<K> {
+    if (!this._structures || !hasStructure(event)) return listener as RawListener<K>;
+    // Structure events all come from the gateway, so the listener takes a shard ID.
+    const structured = listener as ShardListener<unknown>;
+    let wrappers = this._wrappers.get(listener);
+    if (!wrappers) {
+      wrappers = new Map();
+      this._wrappers.set(listener, wrappers);
+    }
+    let wrapped = wrappers.get(event);
+    if (!wrapped) {
+      wrapped = (data, shardId) => structured(toStructure(this, event, data), shardId);
+      wrappers.set(event, wrapped);
+    }
+    return wrapped as RawListener<K>;
+  }
+
+  /** Warn (once per event) about listeners the configured intents will never call. */
+  private _checkIntents(event: keyof EventMap): void {
+    if (this._intents === undefined || this._warnedEvents.has(event)) return;
+    if (isEventDelivered(event, this._intents)) return;
+    this._warnedEvents.add(event);
+    const needed = intentNames(EVENT_INTENTS[event as keyof GatewayEvents] ?? 0).join(" or ");
+    this._log.warn(`Listener registered for ${event}, but the configured intents never deliver it (needs ${needed}).`);
+  }
+
+  /** Call `method` on the emitter for `event`: the ApiClient for REST-side events, else the shards. */
+  private _forward<K extends keyof EventMap>(method: "on" | "once" | "off", event: K, listener: RawListener<K>): void {
+    if (isApiEvent(event)) {
+      this.api[method](event, listener as Listener<ApiClientEvents[typeof event]>);
+    } else {
+      const gatewayEvent = event as Extract<K, keyof GatewayClientEvents>;
+      this.shards[method](gatewayEvent, listener as ShardListener<GatewayClientEvents[typeof gatewayEvent]>);
+    }
+  }
+
+  /** Proxy for `shards.waitFor` — waits for the event on any shard. */
   waitFor<K extends keyof GatewayEvents>(
     event: K,
-    options?: { filter?: (data: GatewayEvents[K]) => boolean; timeout?: number },
-  ): Promise<GatewayEvents[K]> {
-    return this.gateway.waitFor(event, options);
+    options?: { filter?: (data: ClientEventPayload<K, Structured>, shardId: number) => boolean; timeout?: number },
+  ): Promise<ClientEventPayload<K, Structured>> {
+    const convert = (data: GatewayEvents[K]) =>
+      (this._structures ? toStructure(this, event, data) : data) as ClientEventPayload<K, Structured>;
+    const filter = options?.filter;
+    return this.shards
+      .waitFor(event, { ...options, filter: filter && ((data, shardId) => filter(convert(data), shardId)) })
+      .then(convert);
   }
 
   // ── Convenience: send message ─────────────────────────────────────────
@@ -160,6 +256,17 @@ export class Client {
     return this.api.sendMessage(channelId, message);
   }
 
+  // ── Convenience: members ──────────────────────────────────────────────
+
+  /**
+   * Request members over the gateway (on the guild's shard) and wait for all chunks.
+   * The members are also added to the `members` cache.
+   */
+  async fetchGuildMembers(guildId: string, options?: FetchGuildMembersOptions): Promise<GuildMembersResult> {
+    const shard = this.shards.forGuild(guildId) ?? this.gateway;
+    return shard.fetchGuildMembers(guildId, options);
+  }
+
   // ── Lifecycle ──────────────────────────────────────────────────────────
 
   /** Connect to the gateway and start receiving events. Alias for `connect()`. */
@@ -167,30 +274,33 @@ export class Client {
     return this.connect();
   }
 
-  /** Connect to the gateway and start receiving events. */
+  /** Connect every shard to the gateway and start receiving events. */
   async connect(): Promise<void> {
-    return this.gateway.connect();
+    // `destroy()` stopped them, if this client was connected before.
+    this.cache.startSweepers();
+    return this.shards.connect();
   }
 
   /** Gracefully shut down both the gateway and any in-flight requests. */
   destroy(): void {
     this._readyAt = null;
     this.user = null;
-    this.guilds.clear();
-    this.channels.clear();
-    this.users.clear();
-    this.gateway.destroy();
+    this.cache.clear();
+    this.shards.destroy();
     this._removeShutdownHandlers();
   }
 
   /**
    * Register SIGINT / SIGTERM handlers that automatically call `destroy()`.
    * Call this after constructing the client if you want graceful shutdown.
+   * With a `sessionStore`, sessions are saved before the process exits.
    */
   enableGracefulShutdown(): this {
     const handler = () => {
-      this.destroy();
-      process.exit(0);
+      void this.shards.saveSessions().finally(() => {
+        this.destroy();
+        process.exit(0);
+      });
     };
 
     process.on("SIGINT", handler);
@@ -10,15 +10,27 @@ export interface PreconditionResult {
   success: boolean;
   error?: CommandError;
   reason?: string;
+  /** Milliseconds until the command can be used again — set with `CommandError.OnCooldown`. */
+  retryAfter?: number;
 }
 
-export type Precondition = (ctx: CommandContext) => PreconditionResult | Promise<PreconditionResult>;
+export interface Precondition {
+  (ctx: CommandContext): PreconditionResult | Promise<PreconditionResult>;
+  /**
+   * Check once the arguments have parsed, just before the command runs,
+   * instead of before parsing — for checks with side effects, like
+   * `cooldown()` using up a charge, which a typo shouldn't trigger.
+   */
+  afterParse?: boolean;
+}
 
 // ── Type parser ─────────────────────────────────────────────────────────────
 
 export interface TypeParser<T = unknown> {
   /** The type name shown in help text. */
   name: string;
+  /** What a valid value looks like, for parse errors — e.g. `"a duration like 1h30m"`. */
+  expected?: string;
   /** Parse a raw string argument into the target type. Returns `undefined` on failure. */
   parse(value: string, ctx: CommandContext): T | undefined | Promise<T | undefined>;
 }
@@ -31,6 +43,34 @@ export interface CommandParameter {
   optional?: boolean;
   defaultValue?: unknown;
   summary?: string;
+  /**
+   * Take the rest of the input, verbatim, as one argument — e.g. a ban
+   * reason. The command's flags are cut out of it. Must be the last parameter.
+   */
+  remainder?: boolean;
+  /**
+   * Take every remaining argument, each parsed with `type`, as an array.
+   * Must be the last parameter. An optional variadic parameter defaults to `[]`.
+   */
+  variadic?: boolean;
+}
+
+// ── Flag definition ─────────────────────────────────────────────────────────
+
+/**
+ * A named option, given anywhere in the arguments as `--name`, `--name=value`
+ * or `--name value` (or `-s` for a `short` alias). Parsed flags are on
+ * `ctx.flags`, keyed by `name`.
+ */
+export interface CommandFlag {
+  name: string;
+  /** Single-character alias, used as `-s`. */
+  short?: string;
+  /** Parser for the flag's value. Without one, the flag is a switch: `true` when given. */
+  type?: TypeParser;
+  /** Value when the flag isn't given. Default: `false` for switches, otherwise `undefined`. */
+  defaultValue?: unknown;
+  summary?: string;
 }
 
 // ── Command definition ──────────────────────────────────────────────────────
@@ -50,16 +90,61 @@ export interface CommandDefinition {
   preconditions?: Precondition[];
   /** Parameter definitions for argument parsing. */
   parameters?: CommandParameter[];
+  /** Named flags. Without any, `--words` are ordinary arguments. */
+  flags?: CommandFlag[];
   /** The handler function. */
   execute: (ctx: CommandContext, ...parsedArgs: unknown[]) => void | Promise<void>;
 }
 
+// ── Command group ───────────────────────────────────────────────────────────
+
+/**
+ * A named set of subcommands. Groups nest: `!config prefix set ?` runs the
+ * `set` command of the `prefix` group inside the `config` group, with `?` as
+ * its argument.
+ */
+export interface CommandGroup {
+  /** Group name (matched after the prefix, or after the parent group's name). */
+  name: string;
+  /** Alternative names that also select this group. */
+  aliases?: string[];
+  /** Short description for help text. */
+  summary?: string;
+  /** Detailed usage info. */
+  remarks?: string;
+  /** Preconditions for every command in the group, checked before the command's own. */
+  preconditions?: Precondition[];
+  /** The subcommands and nested groups. */
+  commands: (CommandDefinition | CommandGroup)[];
+  /**
+   * Name of the subcommand to run when no subcommand name follows the group's;
+   * the rest of the input becomes its arguments. Without one, that input fails
+   * with `UnknownCommand` and a list of the subcommands.
+   */
+  defaultCommand?: string;
+}
+
+/** Anything that can be registered with the CommandService. */
+export type CommandEntry = CommandDefinition | CommandGroup;
+
+export function isCommandGroup(entry: CommandEntry): entry is CommandGroup {
+  return "commands" in entry;
+}
+
 // ── Command search result ───────────────────────────────────────────────────
 
 export interface CommandSearchResult {
   command: CommandDefinition;
   /** The alias that matched (may differ from `command.name`). */
   matchedAlias: string;
+  /**
+   * The names and aliases that selected the command, outermost group first —
+   * e.g. `["config", "prefix", "set"]`. A group's default command isn't named
+   * in the input, so isn't included.
+   */
+  path: string[];
+  /** The groups the command is in, outermost first. */
+  groups: CommandGroup[];
 }
 
 // ── Execution result ────────────────────────────────────────────────────────
@@ -69,4 +154,6 @@ export interface CommandResult {
   error?: CommandError;
   reason?: string;
   exception?: unknown;
+  /** Milliseconds until the command can be used again — set with `CommandError.OnCooldown`. */
+  retryAfter?: number;
 }
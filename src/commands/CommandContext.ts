@@ -1,10 +1,15 @@
 /**
  * Context object passed to every command handler.
- * Provides access to the message, channel, guild, and the API/Gateway clients.
+ * Provides access to the message, channel, guild, the API/Gateway clients
+ * and, if the CommandService was given one, the client caches.
  */
 import type { ApiClient } from "../api/ApiClient.js";
+import { RequestPriority } from "../rateLimit/RateLimitManager.js";
 import type { GatewayClient } from "../gateway/GatewayClient.js";
+import type { ClientCache } from "../cache/ClientCache.js";
 import type { MessageEventData } from "../types/gateway.js";
+import { tokenize } from "./tokenizer.js";
+import type { CommandDefinition, CommandGroup } from "./Command.js";
 import type { User, Message, CreateMessagePayload, Embed } from "../types/models.js";
 
 export class CommandContext {
@@ -17,19 +22,40 @@ export class CommandContext {
   /** The WebSocket gateway client. */
   public readonly gateway: GatewayClient;
 
-  /** Index where the command argument text begins in the message content. */
+  /** Index where the prefix ends, and the command name begins, in the message content. */
   public readonly argPos: number;
 
+  /** The client caches, if the CommandService has them — used by the entity type parsers. */
+  public readonly cache: ClientCache | undefined;
+
+  /** Parsed flags keyed by flag name — set by the CommandService before execution. */
+  public flags: Record<string, unknown> = {};
+
+  /** The command being run — set by the CommandService before execution. */
+  public command: CommandDefinition | undefined;
+
+  /** The groups `command` is in, outermost first — set by the CommandService before execution. */
+  public groups: CommandGroup[] = [];
+
+  /**
+   * The command and group names (or aliases) that selected the command, e.g.
+   * `["config", "prefix", "set"]` — set by the CommandService before execution.
+   * `argString` starts after them.
+   */
+  public path: string[] = [];
+
   constructor(
     message: MessageEventData,
     api: ApiClient,
     gateway: GatewayClient,
     argPos: number,
+    cache?: ClientCache,
   ) {
     this.message = message;
     this.api = api;
     this.gateway = gateway;
     this.argPos = argPos;
+    this.cache = cache;
   }
 
   // ── Convenience getters ───────────────────────────────────────────────
@@ -54,30 +80,42 @@ export class CommandContext {
     return this.message.content ?? "";
   }
 
-  /** The command argument string (everything after the prefix + command name). */
+  /** The prefix the command was given with — `""` for an unprefixed DM. */
+  get prefix(): string {
+    return this.content.slice(0, this.argPos).trim();
+  }
+
+  /** The command argument string (everything after the prefix + command name, or `path`). */
   get argString(): string {
-    const afterPrefix = this.content.slice(this.argPos).trim();
-    const spaceIndex = afterPrefix.indexOf(" ");
-    return spaceIndex === -1 ? "" : afterPrefix.slice(spaceIndex + 1).trim();
+    let rest = this.content.slice(this.argPos).trim();
+    for (let i = 0; i < Math.max(this.path.length, 1); i++) {
+      const space = rest.search(/\s/);
+      if (space === -1) return "";
+      rest = rest.slice(space).trimStart();
+    }
+    return rest.trim();
   }
 
-  /** The arguments split by whitespace. */
+  /** The arguments, split on whitespace except inside quotes, with quotes and escapes removed. */
   get args(): string[] {
-    const raw = this.argString;
-    return raw ? raw.split(/\s+/) : [];
+    return tokenize(this.argString).map((token) => token.value);
   }
 
   // ── Convenience methods ───────────────────────────────────────────────
 
-  /** Reply to the current channel with a text message or payload. */
+  /**
+   * Reply to the current channel with a text message or payload.
+   * Include `files` in the payload to upload attachments.
+   * Replies are sent at `RequestPriority.High`.
+   */
   async reply(message: string | CreateMessagePayload): Promise<Message> {
     const payload: CreateMessagePayload =
       typeof message === "string" ? { content: message } : message;
-    return this.api.sendMessage(this.channelId, payload);
+    return this.api.withPriority(RequestPriority.High).sendMessage(this.channelId, payload);
   }
 
   /** Reply with an embed. */
   async replyEmbed(embed: Embed): Promise<Message> {
-    return this.api.sendMessage(this.channelId, { embeds: [embed] });
+    return this.api.withPriority(RequestPriority.High).sendMessage(this.channelId, { embeds: [embed] });
   }
 }
@@ -4,52 +4,87 @@
  * Mirrors Fluxer.Net/Commands/CommandService.cs.
  */
 import { CommandError } from "../types/enums.js";
-import type {
-  CommandDefinition,
-  CommandResult,
-  CommandSearchResult,
-  Precondition,
+import {
+  isCommandGroup,
+  type CommandDefinition,
+  type CommandEntry,
+  type CommandFlag,
+  type CommandGroup,
+  type CommandResult,
+  type CommandSearchResult,
+  type Precondition,
+  type PreconditionResult,
+  type TypeParser,
 } from "./Command.js";
 import { CommandContext } from "./CommandContext.js";
+import { tokenize, type Token } from "./tokenizer.js";
+import { BooleanParser } from "./typeParsers.js";
 import { ModuleBase } from "./ModuleBase.js";
 import type { ApiClient } from "../api/ApiClient.js";
+import type { ClientCache } from "../cache/ClientCache.js";
 import type { GatewayClient } from "../gateway/GatewayClient.js";
 import type { MessageEventData } from "../types/gateway.js";
 import { noopLogger, type Logger } from "../util/logger.js";
 
+/** Resolves the prefix(es) for a message — e.g. from the guild's settings. */
+export type PrefixResolver = (message: MessageEventData) => string | string[] | Promise<string | string[]>;
+
 export interface CommandServiceOptions {
-  /** Command prefix character(s). Default: `"!"`. */
-  prefix?: string;
+  /**
+   * Command prefix character(s), several prefixes, or a function resolving
+   * them per message. Default: `"!"`.
+   */
+  prefix?: string | string[] | PrefixResolver;
+  /**
+   * The bot's user ID, or a function returning it, to accept a mention of the
+   * bot as a prefix: `@Bot ping`. Use a function such as `() => bot.user?.id`
+   * when the ID isn't known until READY.
+   */
+  mentionPrefix?: string | (() => string | undefined);
+  /** Also run commands sent without a prefix in DMs. Default: `false`. */
+  dmPrefixOptional?: boolean;
   /** Logger instance. */
   logger?: Logger;
-  /** Whether prefix matching is case-sensitive. Default: `false`. */
+  /** Whether prefix and command matching is case-sensitive. Default: `false`. */
   caseSensitive?: boolean;
+  /**
+   * Client caches (`bot.cache`) for command contexts. The entity type parsers
+   * look entities up here before falling back to the API.
+   */
+  cache?: ClientCache;
 }
 
 export class CommandService {
-  public readonly prefix: string;
-  private readonly _commands: CommandDefinition[] = [];
+  public readonly prefix: string | string[] | PrefixResolver;
+  private readonly _commands: CommandEntry[] = [];
   private readonly _modules: ModuleBase[] = [];
   private readonly _log: Logger;
   private readonly _caseSensitive: boolean;
+  private readonly _cache: ClientCache | undefined;
+  private readonly _mentionPrefix: string | (() => string | undefined) | undefined;
+  private readonly _dmPrefixOptional: boolean;
 
   constructor(options?: CommandServiceOptions) {
     this.prefix = options?.prefix ?? "!";
+    this._mentionPrefix = options?.mentionPrefix;
+    this._dmPrefixOptional = options?.dmPrefixOptional ?? false;
     this._log = options?.logger ?? noopLogger;
     this._caseSensitive = options?.caseSensitive ?? false;
+    this._cache = options?.cache;
   }
 
   // ── Registration ──────────────────────────────────────────────────────
 
-  /** Register a single command definition. */
-  addCommand(cmd: CommandDefinition): this {
+  /** Register a single command definition or command group. */
+  addCommand(cmd: CommandEntry): this {
+    validateEntry(cmd, []);
     this._commands.push(cmd);
-    this._log.debug(`Registered command: ${cmd.name}`);
+    this._log.debug(`Registered ${isCommandGroup(cmd) ? "command group" : "command"}: ${cmd.name}`);
     return this;
   }
 
-  /** Register multiple commands at once. */
-  addCommands(...cmds: CommandDefinition[]): this {
+  /** Register multiple commands or command groups at once. */
+  addCommands(...cmds: CommandEntry[]): this {
     for (const cmd of cmds) this.addCommand(cmd);
     return this;
   }
@@ -59,14 +94,8 @@ export class CommandService {
     this._modules.push(mod);
     const cmds = mod.getCommands();
     for (const cmd of cmds) {
-      // Wrap the execute fn so lifecycle hooks run
-      const originalExecute = cmd.execute;
-      cmd.execute = async (ctx, ...args) => {
-        mod.context = ctx;
-        await mod.beforeExecute(ctx);
-        await originalExecute.call(mod, ctx, ...args);
-        await mod.afterExecute(ctx);
-      };
+      validateEntry(cmd, []);
+      wrapModuleCommands(mod, cmd);
       this._commands.push(cmd);
     }
     this._log.debug(`Registered module with ${cmds.length} command(s).`);
@@ -74,32 +103,94 @@ export class CommandService {
   }
 
   /** Register commands from a plain object map. */
-  addCommandsFromObject(obj: Record<string, CommandDefinition>): this {
+  addCommandsFromObject(obj: Record<string, CommandEntry>): this {
     for (const cmd of Object.values(obj)) this.addCommand(cmd);
     return this;
   }
 
   // ── Search ────────────────────────────────────────────────────────────
 
-  /** Find a command by name or alias. */
-  search(name: string): CommandSearchResult | null {
-    const needle = this._caseSensitive ? name : name.toLowerCase();
-    for (const cmd of this._commands) {
-      const cmdName = this._caseSensitive ? cmd.name : cmd.name.toLowerCase();
-      if (cmdName === needle) return { command: cmd, matchedAlias: cmd.name };
-      if (cmd.aliases) {
-        for (const alias of cmd.aliases) {
-          const a = this._caseSensitive ? alias : alias.toLowerCase();
-          if (a === needle) return { command: cmd, matchedAlias: alias };
-        }
+  /**
+   * Find a command by name or alias. Pass the words after the prefix —
+   * `"config prefix set ?"` — to descend into command groups: the longest
+   * run of matching group and subcommand names wins, and later words are
+   * left for the arguments. Returns `null` if nothing matches, or if a group
+   * matches without a subcommand and has no `defaultCommand`.
+   */
+  search(input: string): CommandSearchResult | null {
+    const found = this._resolve(input.trim().split(/\s+/));
+    return found && "command" in found ? found : null;
+  }
+
+  /**
+   * Find a command or group by its exact path, e.g. `"config prefix"` — for
+   * help listings, which want the group itself rather than its default command.
+   */
+  lookup(path: string): CommandEntry | null {
+    let entries = this._commands;
+    let entry: CommandEntry | null = null;
+    for (const word of path.trim().split(/\s+/)) {
+      entry = this._match(entries, word)?.entry ?? null;
+      if (!entry) return null;
+      entries = isCommandGroup(entry) ? entry.commands : [];
+    }
+    return entry;
+  }
+
+  /** Get all registered top-level commands. */
+  getCommands(): readonly CommandDefinition[] {
+    return this._commands.filter((entry): entry is CommandDefinition => !isCommandGroup(entry));
+  }
+
+  /** Get all registered top-level command groups. */
+  getGroups(): readonly CommandGroup[] {
+    return this._commands.filter(isCommandGroup);
+  }
+
+  /**
+   * Walk the command tree along `words`. Stops at a command, or at a group
+   * whose next word isn't one of its subcommands — falling back to the
+   * group's default command, if it has one.
+   */
+  private _resolve(words: string[]): CommandSearchResult | UnresolvedGroup | null {
+    const path: string[] = [];
+    const groups: CommandGroup[] = [];
+    let match = this._match(this._commands, words[0]);
+    while (match) {
+      path.push(match.alias);
+      if (!isCommandGroup(match.entry)) {
+        return { command: match.entry, matchedAlias: match.alias, path, groups };
+      }
+
+      const group = match.entry;
+      groups.push(group);
+      const next = path.length < words.length ? this._match(group.commands, words[path.length]) : null;
+      if (!next) {
+        const fallback = group.commands.find(
+          (entry): entry is CommandDefinition => !isCommandGroup(entry) && entry.name === group.defaultCommand,
+        );
+        return fallback ? { command: fallback, matchedAlias: fallback.name, path, groups } : { group, path };
       }
+      match = next;
     }
     return null;
   }
 
-  /** Get all registered commands. */
-  getCommands(): readonly CommandDefinition[] {
-    return this._commands;
+  /** Find the entry in `entries` named `word`, by name or alias. */
+  private _match(entries: readonly CommandEntry[], word: string | undefined): EntryMatch | null {
+    if (!word) return null;
+    const needle = this._caseSensitive ? word : word.toLowerCase();
+    for (const entry of entries) {
+      const entryName = this._caseSensitive ? entry.name : entry.name.toLowerCase();
+      if (entryName === needle) return { entry, alias: entry.name };
+      if (entry.aliases) {
+        for (const alias of entry.aliases) {
+          const a = this._caseSensitive ? alias : alias.toLowerCase();
+          if (a === needle) return { entry, alias };
+        }
+      }
+    }
+    return null;
   }
 
   // ── Execution ─────────────────────────────────────────────────────────
@@ -110,33 +201,33 @@ export class CommandService {
    * @param message  The gateway MESSAGE_CREATE event data.
    * @param api      REST API client for the command context.
    * @param gateway  Gateway client for the command context.
-   * @param argPos   Character index where the prefix ends (0 = check from start).
+   * @param argPos   Character index where the prefix ends, from `matchPrefix()` or
+   *                 `hasPrefix()`. Omit it to match the prefix here.
    * @returns A result indicating success / failure.
    */
   async execute(
     message: MessageEventData,
     api: ApiClient,
     gateway: GatewayClient,
-    argPos = 0,
+    argPos?: number,
   ): Promise<CommandResult> {
     const content = message.content ?? "";
 
     // ── Prefix check ──
-    const afterPrefix = content.slice(argPos);
-    if (!afterPrefix.startsWith(this.prefix)) {
+    argPos ??= await this.matchPrefix(message);
+    if (argPos < 0) {
       return { success: false, error: CommandError.UnknownCommand, reason: "No prefix match." };
     }
 
-    const withoutPrefix = afterPrefix.slice(this.prefix.length).trim();
-    const spaceIdx = withoutPrefix.indexOf(" ");
-    const cmdName = spaceIdx === -1 ? withoutPrefix : withoutPrefix.slice(0, spaceIdx);
+    const words = content.slice(argPos).trim().split(/\s+/);
+    const cmdName = words[0];
 
     if (!cmdName) {
       return { success: false, error: CommandError.UnknownCommand, reason: "Empty command name." };
     }
 
     // ── Search ──
-    const result = this.search(cmdName);
+    const result = this._resolve(words);
     if (!result) {
       return {
         success: false,
@@ -144,77 +235,342 @@ export class CommandService {
         reason: `Unknown command: ${cmdName}`,
       };
     }
+    if (!("command" in result)) {
+      const names = result.group.commands.map((entry) => entry.name).join(", ");
+      return {
+        success: false,
+        error: CommandError.UnknownCommand,
+        reason: `Missing subcommand for ${result.path.join(" ")}. Available: ${names}`,
+      };
+    }
 
     const cmd = result.command;
-    const ctx = new CommandContext(message, api, gateway, argPos);
-
-    // ── Preconditions ──
-    if (cmd.preconditions) {
-      for (const precond of cmd.preconditions) {
-        const check = await precond(ctx);
-        if (!check.success) {
-          return {
-            success: false,
-            error: check.error ?? CommandError.UnmetPrecondition,
-            reason: check.reason ?? "Precondition failed.",
-          };
-        }
-      }
-    }
+    const ctx = new CommandContext(message, api, gateway, argPos, this._cache);
+    ctx.path = result.path;
+    ctx.command = cmd;
+    ctx.groups = result.groups;
+
+    // ── Preconditions (outermost group first) ──
+    const preconditions = [
+      ...result.groups.flatMap((group) => group.preconditions ?? []),
+      ...(cmd.preconditions ?? []),
+    ];
+    const failed = await this._checkPreconditions(
+      preconditions.filter((precond) => !precond.afterParse),
+      ctx,
+    );
+    if (failed) return failed;
 
     // ── Argument parsing ──
-    const parsedArgs: unknown[] = [];
-    if (cmd.parameters && cmd.parameters.length > 0) {
-      const rawArgs = ctx.args;
-      for (let i = 0; i < cmd.parameters.length; i++) {
-        const param = cmd.parameters[i];
-        const rawValue = rawArgs[i];
-
-        if (rawValue === undefined) {
-          if (param.optional) {
-            parsedArgs.push(param.defaultValue);
-          } else {
-            return {
-              success: false,
-              error: CommandError.BadArgCount,
-              reason: `Missing required argument: ${param.name}`,
-            };
-          }
-        } else {
-          const parsed = await param.type.parse(rawValue, ctx);
-          if (parsed === undefined) {
-            return {
-              success: false,
-              error: CommandError.ParseFailed,
-              reason: `Could not parse "${rawValue}" as ${param.type.name} for parameter "${param.name}".`,
-            };
-          }
-          parsedArgs.push(parsed);
-        }
-      }
+    // Entity type parsers can hit the caches and the API, which may throw.
+    let parsedArgs: unknown[] | CommandResult;
+    try {
+      parsedArgs = await this._parseArguments(cmd, ctx);
+    } catch (err) {
+      return this._exception(err, `Error parsing arguments for command "${result.path.join(" ")}":`);
     }
+    if (!Array.isArray(parsedArgs)) return parsedArgs;
+
+    const failedAfterParse = await this._checkPreconditions(
+      preconditions.filter((precond) => precond.afterParse),
+      ctx,
+    );
+    if (failedAfterParse) return failedAfterParse;
 
     // ── Execute ──
     try {
       await cmd.execute(ctx, ...parsedArgs);
       return { success: true };
     } catch (err) {
-      this._log.error(`Error executing command "${cmdName}":`, err);
-      return {
-        success: false,
-        error: CommandError.Exception,
-        reason: err instanceof Error ? err.message : String(err),
-        exception: err,
-      };
+      return this._exception(err, `Error executing command "${result.path.join(" ")}":`);
     }
   }
 
+  /** Run `preconditions` in order. Returns the first failure as a result, or `null` if all pass. */
+  private async _checkPreconditions(preconditions: Precondition[], ctx: CommandContext): Promise<CommandResult | null> {
+    for (const precond of preconditions) {
+      let check: PreconditionResult;
+      try {
+        check = await precond(ctx);
+      } catch (err) {
+        return this._exception(err, `Error checking preconditions for command "${ctx.path.join(" ")}":`);
+      }
+      if (!check.success) {
+        return {
+          success: false,
+          error: check.error ?? CommandError.UnmetPrecondition,
+          reason: check.reason ?? "Precondition failed.",
+          ...(check.retryAfter !== undefined && { retryAfter: check.retryAfter }),
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Log an error thrown while running a command, and report it as an `Exception` result. */
+  private _exception(err: unknown, message: string): CommandResult {
+    this._log.error(message, err);
+    return {
+      success: false,
+      error: CommandError.Exception,
+      reason: err instanceof Error ? err.message : String(err),
+      exception: err,
+    };
+  }
+
   /**
-   * Check if a message starts with the configured prefix.
-   * Returns the argPos (always 0 for simple prefix) or -1 if no match.
+   * Parse `ctx.argString` into arguments for `cmd`'s parameters, and set
+   * `ctx.flags`. Returns a failed result if the arguments don't fit.
+   */
+  private async _parseArguments(cmd: CommandDefinition, ctx: CommandContext): Promise<unknown[] | CommandResult> {
+    const input = ctx.argString;
+    const tokens = tokenize(input);
+    const params = cmd.parameters ?? [];
+    const flagDefs = cmd.flags ?? [];
+    const last = params[params.length - 1];
+
+    // ── Flags, and the tokens left for parameters ──
+    const flags: Record<string, unknown> = {};
+    for (const flag of flagDefs) flags[flag.name] = flag.defaultValue ?? (flag.type ? undefined : false);
+
+    const positional: Token[] = [];
+    // Where the remainder starts, and the flags (with their values) to cut out of it.
+    let remainderStart: number | undefined;
+    const cut: Token[] = [];
+    let flagsEnded = flagDefs.length === 0;
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const inRemainder = remainderStart !== undefined;
+      if (flagsEnded && inRemainder) break;
+
+      if (!flagsEnded && !token.quoted && token.value === "--") {
+        flagsEnded = true;
+        if (inRemainder) cut.push(token);
+      } else if (
+        !flagsEnded &&
+        !token.quoted &&
+        isFlagToken(token.value) &&
+        // Inside the remainder, words that only look like flags are text.
+        (!inRemainder || this._findFlag(flagDefs, token.value))
+      ) {
+        const result = await this._parseFlag(flagDefs, token.value, tokens[i + 1], ctx);
+        if ("success" in result) return result;
+        if (inRemainder) cut.push(token);
+        if (result.consumedNext) {
+          i++;
+          if (inRemainder) cut.push(tokens[i]);
+        }
+        flags[result.flag.name] = result.value;
+      } else if (!inRemainder) {
+        positional.push(token);
+        // Everything from here on is the remainder, except the command's flags.
+        if (last?.remainder && positional.length === params.length) remainderStart = token.start;
+      }
+    }
+    const remainder = remainderStart === undefined ? undefined : cutTokens(input, remainderStart, cut);
+    ctx.flags = flags;
+
+    // ── Parameters ──
+    const parsedArgs: unknown[] = [];
+    for (let i = 0; i < params.length; i++) {
+      const param = params[i];
+
+      if (param.variadic) {
+        const rest = positional.slice(i);
+        if (rest.length === 0 && !param.optional) {
+          return { success: false, error: CommandError.BadArgCount, reason: `Missing required argument: ${param.name}` };
+        }
+        if (rest.length === 0) {
+          parsedArgs.push(param.defaultValue ?? []);
+          break;
+        }
+        const values: unknown[] = [];
+        for (const token of rest) {
+          const parsed = await param.type.parse(token.value, ctx);
+          if (parsed === undefined) return parseFailure(token.value, param.type, `parameter "${param.name}"`);
+          values.push(parsed);
+        }
+        parsedArgs.push(values);
+        break;
+      }
+
+      const rawValue = param.remainder ? remainder : positional[i]?.value;
+      if (rawValue === undefined) {
+        if (param.optional) {
+          parsedArgs.push(param.defaultValue);
+          continue;
+        }
+        return { success: false, error: CommandError.BadArgCount, reason: `Missing required argument: ${param.name}` };
+      }
+
+      const parsed = await param.type.parse(rawValue, ctx);
+      if (parsed === undefined) return parseFailure(rawValue, param.type, `parameter "${param.name}"`);
+      parsedArgs.push(parsed);
+    }
+
+    return parsedArgs;
+  }
+
+  /** Parse one flag token (and its value, which may be the next token). */
+  private async _parseFlag(
+    flagDefs: CommandFlag[],
+    text: string,
+    next: Token | undefined,
+    ctx: CommandContext,
+  ): Promise<ParsedFlag | CommandResult> {
+    const long = text.startsWith("--");
+    const body = text.slice(long ? 2 : 1);
+    const eq = long ? body.indexOf("=") : -1;
+    const flag = this._findFlag(flagDefs, text);
+    if (!flag) return { success: false, error: CommandError.ParseFailed, reason: `Unknown flag: ${text}` };
+
+    const label = `flag "--${flag.name}"`;
+    let rawValue = eq === -1 ? undefined : body.slice(eq + 1);
+    let consumedNext = false;
+    if (rawValue === undefined && flag.type) {
+      if (!next) return { success: false, error: CommandError.BadArgCount, reason: `Missing value for ${label}` };
+      rawValue = next.value;
+      consumedNext = true;
+    }
+
+    // A switch is `true` when given bare; `--switch=false` is allowed too.
+    if (rawValue === undefined) return { flag, value: true, consumedNext };
+    const parser = flag.type ?? BooleanParser;
+    const value = await parser.parse(rawValue, ctx);
+    if (value === undefined) return parseFailure(rawValue, parser, label);
+    return { flag, value, consumedNext };
+  }
+
+  /** The flag a `--name`, `--name=value` or `-s` token names, if the command has it. */
+  private _findFlag(flagDefs: CommandFlag[], text: string): CommandFlag | undefined {
+    const long = text.startsWith("--");
+    const body = text.slice(long ? 2 : 1);
+    const key = long ? body.split("=", 1)[0] : body;
+    const fold = (name: string) => (this._caseSensitive ? name : name.toLowerCase());
+    return flagDefs.find((f) => (long ? fold(f.name) === fold(key) : f.short === key));
+  }
+
+  // ── Prefix ────────────────────────────────────────────────────────────
+
+  /**
+   * Find the prefix a message starts with: one of the (resolved) prefixes, or
+   * a mention of the bot. Returns the argPos — the index just after the
+   * prefix — or -1 if there's none. With `dmPrefixOptional`, a DM without a
+   * prefix gives 0.
+   */
+  async matchPrefix(message: MessageEventData): Promise<number> {
+    const prefixes = typeof this.prefix === "function" ? await this.prefix(message) : this.prefix;
+    const argPos = this._findPrefix(message.content ?? "", prefixes);
+    if (argPos === -1 && this._dmPrefixOptional && !message.guild_id) return 0;
+    return argPos;
+  }
+
+  /**
+   * Check if message content starts with a configured prefix or a mention of
+   * the bot. Returns the argPos (the index just after the prefix) or -1 if no
+   * match. A prefix function needs the whole message: use `matchPrefix()`.
    */
   hasPrefix(content: string): number {
-    if (content.startsWith(this.prefix)) return 0;
-    return -1;
+    if (typeof this.prefix === "function") {
+      throw new Error("hasPrefix() can't call a prefix function. Use matchPrefix() instead.");
+    }
+    return this._findPrefix(content, this.prefix);
+  }
+
+  private _findPrefix(content: string, prefixes: string | string[]): number {
+    const botId = typeof this._mentionPrefix === "function" ? this._mentionPrefix() : this._mentionPrefix;
+    const mention = botId ? /^<@!?(\d+)>/.exec(content) : null;
+    if (mention && mention[1] === botId) return mention[0].length;
+
+    // Longest first, so `!` doesn't shadow `!!`.
+    const candidates = typeof prefixes === "string" ? [prefixes] : [...prefixes].sort((a, b) => b.length - a.length);
+    const fold = (text: string) => (this._caseSensitive ? text : text.toLowerCase());
+    const match = candidates.find((prefix) => fold(content.slice(0, prefix.length)) === fold(prefix));
+    return match === undefined ? -1 : match.length;
+  }
+}
+
+interface EntryMatch {
+  entry: CommandEntry;
+  /** The name or alias that matched. */
+  alias: string;
+}
+
+/** A group matched, but no subcommand did and it has no default command. */
+interface UnresolvedGroup {
+  group: CommandGroup;
+  path: string[];
+}
+
+interface ParsedFlag {
+  flag: CommandFlag;
+  value: unknown;
+  /** Whether the value was the following token. */
+  consumedNext: boolean;
+}
+
+/** `--name`, `--name=value` or `-s` — not `-`, `--`, or a negative number. */
+function isFlagToken(text: string): boolean {
+  return /^--[^-=\s]/.test(text) || /^-[A-Za-z]$/.test(text);
+}
+
+/** `input` from `start` on, verbatim except for the `cut` tokens. */
+function cutTokens(input: string, start: number, cut: Token[]): string {
+  const pieces: string[] = [];
+  let from = start;
+  for (const token of cut) {
+    pieces.push(input.slice(from, token.start));
+    from = token.end;
+  }
+  pieces.push(input.slice(from));
+  return pieces
+    .map((piece) => piece.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+function parseFailure(rawValue: string, type: TypeParser, target: string): CommandResult {
+  return {
+    success: false,
+    error: CommandError.ParseFailed,
+    reason: type.expected
+      ? `Expected ${type.expected} for ${target}, got "${rawValue}".`
+      : `Could not parse "${rawValue}" as ${type.name} for ${target}.`,
+  };
+}
+
+/** Reject parameter lists the parser can't satisfy, and groups whose default command is missing. */
+function validateEntry(entry: CommandEntry, parents: string[]): void {
+  const label = [...parents, entry.name].join(" ");
+  if (isCommandGroup(entry)) {
+    const fallback = entry.defaultCommand;
+    if (fallback !== undefined && !entry.commands.some((child) => !isCommandGroup(child) && child.name === fallback)) {
+      throw new Error(`Command group "${label}": default command "${fallback}" is not one of its commands.`);
+    }
+    for (const child of entry.commands) validateEntry(child, [...parents, entry.name]);
+    return;
+  }
+
+  const params = entry.parameters ?? [];
+  params.forEach((param, i) => {
+    if ((param.remainder || param.variadic) && i !== params.length - 1) {
+      const kind = param.remainder ? "remainder" : "variadic";
+      throw new Error(`Command "${label}": ${kind} parameter "${param.name}" must be the last parameter.`);
+    }
+  });
+}
+
+/** Wrap the execute fn of every command in `entry` so the module's lifecycle hooks run. */
+function wrapModuleCommands(mod: ModuleBase, entry: CommandEntry): void {
+  if (isCommandGroup(entry)) {
+    for (const child of entry.commands) wrapModuleCommands(mod, child);
+    return;
   }
+  const originalExecute = entry.execute;
+  entry.execute = async (ctx, ...args) => {
+    mod.context = ctx;
+    await mod.beforeExecute(ctx);
+    await originalExecute.call(mod, ctx, ...args);
+    await mod.afterExecute(ctx);
+  };
 }
@@ -5,7 +5,7 @@
  * Extend this class and define commands via `getCommands()`.
  */
 import type { CommandContext } from "./CommandContext.js";
-import type { CommandDefinition } from "./Command.js";
+import type { CommandEntry } from "./Command.js";
 import type { Message, CreateMessagePayload } from "../types/models.js";
 
 export abstract class ModuleBase {
@@ -13,10 +13,10 @@ export abstract class ModuleBase {
   public context!: CommandContext;
 
   /**
-   * Return the command definitions provided by this module.
+   * Return the command definitions and command groups provided by this module.
    * Override in subclasses.
    */
-  abstract getCommands(): CommandDefinition[];
+  abstract getCommands(): CommandEntry[];
 
   /** Called before every command in this module executes. Override to add setup logic. */
   async beforeExecute(_ctx: CommandContext): Promise<void> {
@@ -0,0 +1,139 @@
+/**
+ * Type parsers that resolve mentions, IDs and names into entities.
+ *
+ * Each looks in `ctx.cache` first (when the CommandService has the client
+ * caches) and falls back to the REST API through `ctx.api`. An ID the API
+ * doesn't know (or won't show) fails to parse. Names are matched
+ * case-insensitively. Members, roles and emojis — and channels by name —
+ * only resolve inside a guild.
+ */
+import type { TypeParser } from "./Command.js";
+import type { CommandContext } from "./CommandContext.js";
+import { FluxorApiError } from "../errors.js";
+import type { Channel, GuildEmoji, GuildMember, GuildRole, User } from "../types/models.js";
+
+const ID = /^\d+$/;
+const USER_MENTION = /^<@!?(\d+)>$/;
+const CHANNEL_MENTION = /^<#(\d+)>$/;
+const ROLE_MENTION = /^<@&(\d+)>$/;
+const CUSTOM_EMOJI = /^<a?:\w+:(\d+)>$/;
+
+export const UserParser: TypeParser<User> = {
+  name: "user",
+  expected: "a user mention, ID or username",
+  async parse(value, ctx) {
+    const id = idFrom(value, USER_MENTION);
+    if (id) return lookup(() => (ctx.cache ? ctx.cache.users.fetch(id) : ctx.api.getUser(id)));
+    const matches = nameMatcher(value);
+    if (ctx.guildId) {
+      const member = findMember(ctx, ctx.guildId, matches);
+      if (member?.user) return member.user;
+    }
+    for (const user of ctx.cache?.users.values() ?? []) {
+      if (matches(user.username) || matches(`${user.username}#${user.tag}`)) return user;
+    }
+    return undefined;
+  },
+};
+
+export const MemberParser: TypeParser<GuildMember> = {
+  name: "member",
+  expected: "a member mention, ID or name",
+  async parse(value, ctx) {
+    const guildId = ctx.guildId;
+    if (!guildId) return undefined;
+    const id = idFrom(value, USER_MENTION);
+    if (id) {
+      return lookup(() => (ctx.cache ? ctx.cache.members.fetch(guildId, id) : ctx.api.getMember(guildId, id)));
+    }
+    return findMember(ctx, guildId, nameMatcher(value));
+  },
+};
+
+export const ChannelParser: TypeParser<Channel> = {
+  name: "channel",
+  expected: "a channel mention, ID or name",
+  async parse(value, ctx) {
+    const id = idFrom(value, CHANNEL_MENTION);
+    if (id) return lookup(() => (ctx.cache ? ctx.cache.channels.fetch(id) : ctx.api.getChannel(id)));
+    const guildId = ctx.guildId;
+    if (!guildId) return undefined;
+    const matches = nameMatcher(value.replace(/^#/, ""));
+    const cached = ctx.cache ? [...ctx.cache.channels.values()].filter((c) => c.guild_id === guildId) : [];
+    const channels = cached.length > 0 ? cached : await lookup(() => ctx.api.getGuildChannels(guildId));
+    return channels?.find((channel) => matches(channel.name));
+  },
+};
+
+export const RoleParser: TypeParser<GuildRole> = {
+  name: "role",
+  expected: "a role mention, ID or name",
+  async parse(value, ctx) {
+    const guildId = ctx.guildId;
+    if (!guildId) return undefined;
+    const id = idFrom(value, ROLE_MENTION);
+    const matches = nameMatcher(value.replace(/^@/, ""));
+    const found = (roles: Iterable<GuildRole>) => {
+      for (const role of roles) if (id ? role.id === id : matches(role.name)) return role;
+      return undefined;
+    };
+    return (
+      found(ctx.cache?.roles.get(guildId)?.values() ?? []) ??
+      found((await lookup(() => ctx.api.getGuild(guildId)))?.roles ?? [])
+    );
+  },
+};
+
+export const EmojiParser: TypeParser<GuildEmoji> = {
+  name: "emoji",
+  expected: "a custom emoji, its ID or its name",
+  async parse(value, ctx) {
+    const guildId = ctx.guildId;
+    if (!guildId) return undefined;
+    const id = idFrom(value, CUSTOM_EMOJI);
+    const matches = nameMatcher(value.replace(/^:(.+):$/, "$1"));
+    const found = (emojis: Iterable<GuildEmoji>) => {
+      for (const emoji of emojis) if (id ? emoji.id === id : matches(emoji.name)) return emoji;
+      return undefined;
+    };
+    return (
+      found(ctx.cache?.emojis.get(guildId)?.values() ?? []) ??
+      found((await lookup(() => ctx.api.getEmojis(guildId))) ?? [])
+    );
+  },
+};
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** The ID in a mention matching `mention`, or `value` itself if it is an ID. */
+function idFrom(value: string, mention: RegExp): string | undefined {
+  return mention.exec(value)?.[1] ?? (ID.test(value) ? value : undefined);
+}
+
+/** Case-insensitive name comparison against `name`. */
+function nameMatcher(name: string): (candidate: string | null | undefined) => boolean {
+  const needle = name.toLowerCase();
+  return (candidate) => candidate?.toLowerCase() === needle;
+}
+
+/** A cached member of `guildId` whose nickname or username matches. */
+function findMember(
+  ctx: CommandContext,
+  guildId: string,
+  matches: (name: string | null | undefined) => boolean,
+): GuildMember | undefined {
+  for (const member of ctx.cache?.members.get(guildId)?.values() ?? []) {
+    if (matches(member.nickname) || matches(member.user?.username)) return member;
+  }
+  return undefined;
+}
+
+/** Run a REST lookup, treating API errors (not found, no access) as no match. */
+async function lookup<T>(request: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await request();
+  } catch (err) {
+    if (err instanceof FluxorApiError) return undefined;
+    throw err;
+  }
+}
@@ -1,21 +1,39 @@
-export { CommandService, type CommandServiceOptions } from "./CommandService.js";
+export { CommandService, type CommandServiceOptions, type PrefixResolver } from "./CommandService.js";
 export { CommandContext } from "./CommandContext.js";
 export { ModuleBase } from "./ModuleBase.js";
+export { isCommandGroup } from "./Command.js";
 export type {
   CommandDefinition,
+  CommandGroup,
+  CommandEntry,
   CommandResult,
   CommandSearchResult,
   CommandParameter,
+  CommandFlag,
   Precondition,
   PreconditionResult,
   TypeParser,
 } from "./Command.js";
-export { requireGuild, requireOwner, requirePermissions } from "./preconditions.js";
+export { tokenize, type Token } from "./tokenizer.js";
+export {
+  requireGuild,
+  requireOwner,
+  requirePermissions,
+  cooldown,
+  type CooldownOptions,
+  type CooldownScope,
+} from "./preconditions.js";
 export {
   StringParser,
   NumberParser,
   IntegerParser,
   BooleanParser,
   BigIntParser,
+  DurationParser,
+  UrlParser,
+  HexColorParser,
+  DateParser,
+  enumParser,
   defaultTypeParsers,
 } from "./typeParsers.js";
+export { UserParser, MemberParser, ChannelParser, RoleParser, EmojiParser } from "./entityParsers.js";
@@ -2,6 +2,7 @@
  * Built-in precondition factories for the command framework.
  */
 import { CommandError } from "../types/enums.js";
+import { MemoryRateLimitStore, type RateLimitStore } from "../rateLimit/RateLimitStore.js";
 import type { Precondition, PreconditionResult } from "./Command.js";
 import type { CommandContext } from "./CommandContext.js";
 
@@ -67,3 +68,94 @@ export function requirePermissions(requiredBits: bigint): Precondition {
     };
   };
 }
+
+/** Who shares a cooldown bucket. */
+export type CooldownScope = "user" | "channel" | "guild" | "global";
+
+export interface CooldownOptions {
+  /** Uses allowed per window. */
+  uses: number;
+  /** Window length in ms. */
+  per: number;
+  /** Who shares the uses: each user, channel or guild, or everyone. Default: `"user"`. */
+  scope?: CooldownScope;
+  /**
+   * Where the bucket state lives. Pass a shared `RateLimitStore` (e.g. a
+   * `FileRateLimitStore`) to enforce one cooldown across processes and
+   * restarts. Default: a new `MemoryRateLimitStore`.
+   */
+  store?: RateLimitStore;
+  /**
+   * Bucket name, for several commands sharing one cooldown. Default: the
+   * command's group and command names, e.g. `"config prefix set"` — the same
+   * whichever aliases were used.
+   */
+  bucket?: string;
+  /** User IDs that are never limited — e.g. the bot owners. */
+  bypass?: string[];
+}
+
+/**
+ * Limits a command to `uses` runs per `per` ms, as a sliding window. Once
+ * the uses run out it fails with `CommandError.OnCooldown` and `retryAfter`,
+ * the ms until the next use frees up.
+ *
+ * It's checked after the arguments parse and the other preconditions pass,
+ * so a typo or a failed permission check doesn't use up a charge.
+ * In DMs, the `"guild"` scope falls back to the channel.
+ */
+export function cooldown(options: CooldownOptions): Precondition {
+  const { uses, per, scope = "user", store = new MemoryRateLimitStore() } = options;
+  const bypass = new Set(options.bypass);
+  const limits = { limit: uses, windowMs: per };
+  const check: Precondition = async (ctx: CommandContext) => {
+    const userId = ctx.user?.id;
+    if (userId && bypass.has(userId)) return ok;
+
+    const target = cooldownTarget(ctx, scope);
+    if (!target) return ok;
+
+    const bucket = options.bucket ?? commandName(ctx);
+    const wait = await store.acquire(`cooldown:${bucket}:${scope}:${target}`, limits);
+    if (wait === 0) return ok;
+    return {
+      success: false,
+      error: CommandError.OnCooldown,
+      reason: `This command is on cooldown. Try again in ${formatWait(wait)}.`,
+      retryAfter: wait,
+    };
+  };
+  check.afterParse = true;
+  return check;
+}
+
+/** The full name of the command being run, without aliases. */
+function commandName(ctx: CommandContext): string {
+  if (!ctx.command) return ctx.path.join(" ");
+  return [...ctx.groups.map((group) => group.name), ctx.command.name].join(" ");
+}
+
+/** The ID of whoever the use counts against. */
+function cooldownTarget(ctx: CommandContext, scope: CooldownScope): string | undefined {
+  switch (scope) {
+    case "user":
+      return ctx.user?.id;
+    case "channel":
+      return ctx.channelId;
+    case "guild":
+      return ctx.guildId ?? ctx.channelId;
+    case "global":
+      return "*";
+  }
+}
+
+/** `12s`, `4m 30s`, `2h 5m` — rounded up to the second. */
+function formatWait(ms: number): string {
+  const total = Math.max(1, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return m > 0 ? `${h}h ${m}m` : `${h}h`;
+  if (m > 0) return s > 0 ? `${m}m ${s}s` : `${m}m`;
+  return `${s}s`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Splits command arguments into tokens.
+ *
+ * Tokens are separated by whitespace. Double quotes (straight or curly)
+ * group words into one token, and a backslash escapes the next character if
+ * it's a quote, a backslash or whitespace. Before anything else a backslash
+ * is kept, so Windows paths and Markdown escapes pass through:
+ *
+ * ```
+ * say "hello world" \"quoted\" a\ b C:\temp  →  say | hello world | "quoted" | a b | C:\temp
+ * ```
+ *
+ * An unclosed quote runs to the end of the input.
+ */
+
+export interface Token {
+  /** The token text, with quotes and escapes removed. */
+  value: string;
+  /** Index of the token's first character (its opening quote, if quoted) in the input. */
+  start: number;
+  /** Index just past the token's last character in the input. */
+  end: number;
+  /** Whether any part of the token was quoted or escaped — such tokens are never flags. */
+  quoted: boolean;
+}
+
+const CLOSING_QUOTES: Record<string, string> = { '"': '"', "“": "”", "„": "“" };
+
+/** Characters a backslash escapes: quotes (including the closing curly one) and backslashes. */
+const ESCAPABLE = new Set(['"', "'", "\\", "“", "”", "„"]);
+
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i]!)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let value = "";
+    let quoted = false;
+    let closing: string | null = null;
+
+    for (; i < input.length; i++) {
+      const char = input[i]!;
+      const next = input[i + 1];
+      if (char === "\\" && next !== undefined && (ESCAPABLE.has(next) || /\s/.test(next))) {
+        value += input[++i];
+        quoted = true;
+      } else if (closing !== null) {
+        if (char === closing) closing = null;
+        else value += char;
+      } else if (char in CLOSING_QUOTES) {
+        closing = CLOSING_QUOTES[char]!;
+        quoted = true;
+      } else if (/\s/.test(char)) {
+        break;
+      } else {
+        value += char;
+      }
+    }
+
+    tokens.push({ value, start, end: i, quoted });
+  }
+
+  return tokens;
+}
@@ -1,7 +1,9 @@
 /**
- * Built-in type parsers for command arguments.
+ * Built-in type parsers for command arguments. Parsers for users, members,
+ * channels, roles and emojis live in `entityParsers.ts`.
  */
 import type { TypeParser } from "./Command.js";
+import { ChannelParser, EmojiParser, MemberParser, RoleParser, UserParser } from "./entityParsers.js";
 
 export const StringParser: TypeParser<string> = {
   name: "string",
@@ -12,6 +14,7 @@ export const StringParser: TypeParser<string> = {
 
 export const NumberParser: TypeParser<number> = {
   name: "number",
+  expected: "a number",
   parse(value) {
     const n = Number(value);
     return Number.isNaN(n) ? undefined : n;
@@ -20,6 +23,7 @@ export const NumberParser: TypeParser<number> = {
 
 export const IntegerParser: TypeParser<number> = {
   name: "integer",
+  expected: "a whole number",
   parse(value) {
     const n = parseInt(value, 10);
     return Number.isNaN(n) ? undefined : n;
@@ -28,6 +32,7 @@ export const IntegerParser: TypeParser<number> = {
 
 export const BooleanParser: TypeParser<boolean> = {
   name: "boolean",
+  expected: "yes/no, true/false or 1/0",
   parse(value) {
     const lower = value.toLowerCase();
     if (lower === "true" || lower === "yes" || lower === "1") return true;
@@ -38,6 +43,7 @@ export const BooleanParser: TypeParser<boolean> = {
 
 export const BigIntParser: TypeParser<bigint> = {
   name: "bigint",
+  expected: "an integer",
   parse(value) {
     try {
       return BigInt(value);
@@ -47,6 +53,90 @@ export const BigIntParser: TypeParser<bigint> = {
   },
 };
 
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** A duration like `1h30m`, `90s` or `2d` (units `w d h m s ms`), in milliseconds. */
+export const DurationParser: TypeParser<number> = {
+  name: "duration",
+  expected: "a duration like 1h30m, 90s or 2d",
+  parse(value) {
+    const parts = value.toLowerCase().match(/\d+(?:\.\d+)?(?:ms|[wdhms])/g);
+    if (!parts || parts.join("") !== value.toLowerCase()) return undefined;
+    return parts.reduce((total, part) => {
+      const [, amount, unit] = /^([\d.]+)(\D+)$/.exec(part)!;
+      return total + Number(amount) * DURATION_UNITS[unit!]!;
+    }, 0);
+  },
+};
+
+/** An `http(s)` URL. Angle brackets (`<https://...>`, which suppress embeds) are removed. */
+export const UrlParser: TypeParser<URL> = {
+  name: "url",
+  expected: "an http(s) URL",
+  parse(value) {
+    const text = value.startsWith("<") && value.endsWith(">") ? value.slice(1, -1) : value;
+    try {
+      const url = new URL(text);
+      return url.protocol === "http:" || url.protocol === "https:" ? url : undefined;
+    } catch {
+      return undefined;
+    }
+  },
+};
+
+/** A hex color — `#ff8800`, `ff8800`, `0xff8800` or short `#f80` — as a number. */
+export const HexColorParser: TypeParser<number> = {
+  name: "color",
+  expected: "a hex color like #ff8800",
+  parse(value) {
+    const hex = value.replace(/^(#|0x)/i, "");
+    if (!/^([\da-f]{3}|[\da-f]{6})$/i.test(hex)) return undefined;
+    const full = hex.length === 3 ? [...hex].map((c) => c + c).join("") : hex;
+    return parseInt(full, 16);
+  },
+};
+
+/** An ISO 8601 date (`2024-05-01`, `2024-05-01T12:00Z`) or a timestamp mention (`<t:1714564800>`). */
+export const DateParser: TypeParser<Date> = {
+  name: "date",
+  expected: "a date like 2024-05-01 or 2024-05-01T12:00Z",
+  parse(value) {
+    const timestamp = /^<t:(-?\d+)(?::\w)?>$/.exec(value);
+    if (timestamp) return new Date(Number(timestamp[1]) * 1000);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  },
+};
+
+/**
+ * A parser accepting one of `choices` (case-insensitively, unless
+ * `caseSensitive`), returning the choice as declared.
+ *
+ * @example
+ * { name: "mode", type: enumParser(["easy", "normal", "hard"] as const) }
+ */
+export function enumParser<T extends string>(
+  choices: readonly T[],
+  options?: { name?: string; caseSensitive?: boolean },
+): TypeParser<T> {
+  const fold = (text: string) => (options?.caseSensitive ? text : text.toLowerCase());
+  return {
+    name: options?.name ?? choices.join("|"),
+    expected: `one of ${choices.map((choice) => `"${choice}"`).join(", ")}`,
+    parse(value) {
+      return choices.find((choice) => fold(choice) === fold(value));
+    },
+  };
+}
+
 /** Default set of type parsers keyed by type name. */
 export const defaultTypeParsers: Record<string, TypeParser> = {
   string: StringParser,
@@ -54,4 +144,13 @@ export const defaultTypeParsers: Record<string, TypeParser> = {
   integer: IntegerParser,
   boolean: BooleanParser,
   bigint: BigIntParser,
+  duration: DurationParser,
+  url: UrlParser,
+  color: HexColorParser,
+  date: DateParser,
+  user: UserParser,
+  member: MemberParser,
+  channel: ChannelParser,
+  role: RoleParser,
+  emoji: EmojiParser,
 };
@@ -1,5 +1,12 @@
 import type { Logger } from "./util/logger.js";
+import type { RateLimitStore } from "./rateLimit/RateLimitStore.js";
 import type { GatewayEvents } from "./types/gateway.js";
+import type { GatewayCompression } from "./gateway/compression.js";
+import type { GatewayEncoding } from "./gateway/encoding.js";
+import type { SessionStore } from "./gateway/SessionStore.js";
+import type { FluxorGatewayError } from "./errors.js";
+import type { CacheConfig } from "./cache/ClientCache.js";
+import type { CacheAdapterFactory } from "./cache/CacheAdapter.js";
 
 /**
  * Presence status values accepted by the gateway IDENTIFY payload.
@@ -19,6 +26,33 @@ export interface PresenceData {
   since?: number | null;
 }
 
+/**
+ * Retry policy for REST requests.
+ *
+ * 429 responses are always safe to retry (the server did not process the
+ * request), so they are retried for every method. 5xx responses and network
+ * errors are only retried when enabled *and* the method is in `methods`.
+ */
+export interface RetryPolicy {
+  /** Total attempts per request, including the first. Default: `3`. */
+  maxAttempts?: number;
+  /** Retry 5xx responses. Default: `false`. */
+  retryServerErrors?: boolean;
+  /** Retry network failures and request timeouts. Default: `false`. */
+  retryNetworkErrors?: boolean;
+  /** Methods that may be retried after a 5xx or network error. Default: idempotent methods. */
+  methods?: string[];
+  /** Backoff strategy for 5xx / network retries. Default: `"exponential"`. */
+  backoff?: "exponential" | "linear" | "fixed";
+  /** Base backoff delay in ms. Default: `500`. */
+  baseDelay?: number;
+  /**
+   * Upper bound for any single wait in ms. A 429 whose `retry_after` is longer
+   * isn't retried. Default: `60 000`.
+   */
+  maxDelay?: number;
+}
+
 /**
  * Configuration options for the Fluxor client.
  */
@@ -33,6 +67,13 @@ export interface FluxorConfig {
   /** Timeout in ms for each REST API request. Default: 15 000 ms. */
   requestTimeout?: number;
 
+  /**
+   * Automatic retry policy for REST requests. Rate-limited (429) requests are
+   * retried after the server-reported `retry_after` by default.
+   * Pass `false` to disable retries entirely.
+   */
+  retry?: RetryPolicy | false;
+
   // ── Gateway ───────────────────────────────────────────
   /** WebSocket URL for the gateway. Defaults to the production Fluxor gateway. */
   gatewayUrl?: string;
@@ -43,16 +84,102 @@ export interface FluxorConfig {
   /** Maximum number of reconnect attempts before giving up. Default: Infinity. */
   maxReconnectAttempts?: number;
 
+  /**
+   * Called when the gateway closes with a non-recoverable code (bad token,
+   * invalid intents, ...). The client has stopped; the same error rejects
+   * `connect()` and is emitted on `error`.
+   */
+  onFatalClose?: (error: FluxorGatewayError) => void;
+
+  /**
+   * Gateway transport compression. `true` means `"zlib-stream"`; `false`
+   * disables compression entirely. When unset, `permessage-deflate` is offered
+   * to the server as the `ws` library does by default.
+   */
+  compress?: boolean | GatewayCompression;
+
+  /** Gateway payload encoding — `"json"` (default), `"etf"`, or a custom `GatewayEncoding`. */
+  encoding?: "json" | "etf" | GatewayEncoding;
+
+  /**
+   * `[shardId, shardCount]` sent in IDENTIFY by a single `GatewayClient`.
+   * Set by `ShardManager` — leave unset for an unsharded connection.
+   */
+  shard?: [number, number];
+
+  /** Total shards spawned by `Client` / `ShardManager`. Omit for one unsharded connection. */
+  shardCount?: number;
+
+  /** Shard IDs this process runs. Default: every ID in `0..shardCount-1`. */
+  shardIds?: number[];
+
+  /** Shards allowed to IDENTIFY at the same time (the gateway's `max_concurrency`). Default: `1`. */
+  identifyConcurrency?: number;
+
+  /**
+   * Where to persist gateway sessions so a restarted process can RESUME.
+   * Default: none (every start sends a fresh IDENTIFY).
+   */
+  sessionStore?: SessionStore;
+
+  /** How often (ms) the session is saved while connected. Default: `30 000`. */
+  sessionSaveInterval?: number;
+
+  /**
+   * Gateway intents bitfield sent in IDENTIFY — OR together `GatewayIntents`
+   * for the event groups you need. Default: unset (the gateway sends everything).
+   */
+  intents?: number;
+
   /** Gateway event names to filter out (never dispatched to your handlers). */
   ignoredGatewayEvents?: (keyof GatewayEvents)[];
 
   /** Initial presence sent in the IDENTIFY payload. */
   presence?: PresenceData;
 
+  // ── Caching ───────────────────────────────────────────
+  /**
+   * Cache policy per entity kind: `false` (disabled), `true` (unbounded, the
+   * default) or options with `maxSize` (LRU), `ttl` / `sweepInterval` and `filter`.
+   */
+  cache?: CacheConfig;
+
+  /**
+   * Backend the caches write through to, one adapter per collection — e.g.
+   * `FileCacheAdapter.factory("./cache")`. Default: none (in-process only).
+   */
+  cacheAdapter?: CacheAdapterFactory;
+
+  /**
+   * Recent messages `Client` keeps per channel. `0` disables the message cache.
+   * Shorthand for `cache.messages: { maxSize }`. Default: `100`.
+   */
+  messageCacheSize?: number;
+
+  // ── Structures ────────────────────────────────────────
+  /**
+   * Emit structure classes (`Structures.Message`, ...) with methods like
+   * `reply()` and `ban()` instead of raw objects. Default: `false`.
+   */
+  structures?: boolean;
+
   // ── Rate limiting ─────────────────────────────────────
   /** Enable client-side rate limiting. Default: `true`. */
   enableRateLimiting?: boolean;
 
+  /**
+   * Backend for rate-limit bucket state. Defaults to an in-process store.
+   * Share a store (e.g. `FileRateLimitStore`) between processes using the same token.
+   */
+  rateLimitStore?: RateLimitStore;
+
+  /**
+   * Maximum requests waiting on one saturated bucket. When full, the newest
+   * lowest-priority waiter is shed with a `FluxorQueueFullError`. A bucket
+   * with free slots never sheds. Default: `Infinity`.
+   */
+  maxRateLimitQueueSize?: number;
+
   // ── Logging ───────────────────────────────────────────
   /** Logger instance. If omitted a silent no-op logger is used. */
   logger?: Logger;
@@ -66,6 +193,30 @@ export const DEFAULT_RECONNECT_DELAY = 2;
 export const DEFAULT_REQUEST_TIMEOUT = 15_000;
 export const DEFAULT_MAX_RECONNECT_ATTEMPTS = Infinity;
 
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  retryServerErrors: false,
+  retryNetworkErrors: false,
+  methods: ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"],
+  backoff: "exponential",
+  baseDelay: 500,
+  maxDelay: 60_000,
+};
+
+/** Merges a user retry policy with `DEFAULT_RETRY_POLICY`. `false` yields a single-attempt policy. */
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (policy === false) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...stripUndefinedKeys(policy ?? {}),
+    methods: (policy?.methods ?? DEFAULT_RETRY_POLICY.methods).map((m) => m.toUpperCase()),
+  };
+}
+
+function stripUndefinedKeys<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
 /** Merges user config with sensible defaults. */
 export function resolveConfig(cfg?: FluxorConfig): Required<
   Pick<
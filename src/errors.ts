@@ -1,3 +1,5 @@
+import { FluxorCloseCode, describeCloseCode, shouldReconnect } from "./gateway/closeCodes.js";
+
 /**
  * Thrown when the Fluxor REST API returns a non-success status code.
  */
@@ -58,3 +60,47 @@ export class FluxorForbiddenError extends FluxorApiError {
     this.name = "FluxorForbiddenError";
   }
 }
+
+/**
+ * Thrown when a request is shed from a saturated rate-limit queue to make
+ * room for higher-priority work (see `maxRateLimitQueueSize`).
+ */
+export class FluxorQueueFullError extends Error {
+  /** Key of the bucket whose queue was full. */
+  public readonly bucketKey: string;
+
+  /** Priority of the request that was shed. */
+  public readonly priority: number;
+
+  constructor(message: string, bucketKey: string, priority: number) {
+    super(message);
+    this.name = "FluxorQueueFullError";
+    this.bucketKey = bucketKey;
+    this.priority = priority;
+  }
+}
+
+/**
+ * Raised when the gateway closes the connection with a close code. Fatal codes
+ * (`recoverable: false`) reject `connect()` and are emitted on `error`.
+ */
+export class FluxorGatewayError extends Error {
+  /** WebSocket close code — usually a `FluxorCloseCode`. */
+  public readonly closeCode: FluxorCloseCode | number;
+
+  /** Readable explanation of the close code. */
+  public readonly explanation: string;
+
+  /** Whether the client reconnects after this close. */
+  public readonly recoverable: boolean;
+
+  constructor(closeCode: FluxorCloseCode | number, reason = "") {
+    const explanation = describeCloseCode(closeCode);
+    const label = FluxorCloseCode[closeCode] ? `${FluxorCloseCode[closeCode]} (${closeCode})` : String(closeCode);
+    super(`Gateway closed with ${label}: ${explanation}` + (reason ? ` Reason: "${reason}".` : ""));
+    this.name = "FluxorGatewayError";
+    this.closeCode = closeCode;
+    this.explanation = explanation;
+    this.recoverable = shouldReconnect(closeCode);
+  }
+}
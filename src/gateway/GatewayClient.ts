@@ -4,25 +4,92 @@
  * Handles bidirectional communication, automatic heartbeats, reconnection
  * with exponential backoff, and session resume capability.
  *
+ * Each instance is one gateway connection (one shard). Use `ShardManager`
+ * to run several shards.
+ *
  * Mirrors Fluxer.Net/GatewayClient.cs.
  */
 
 import WebSocket from "ws";
 import { EventEmitter } from "node:events";
+import { randomBytes } from "node:crypto";
 import { FluxorOpCode } from "./opcodes.js";
 import { FluxorCloseCode, shouldReconnect as shouldReconnectForCode } from "./closeCodes.js";
-import type { GatewayPacket, HelloData, IdentifyData, ResumeData } from "./packets.js";
+import { FluxorGatewayError } from "../errors.js";
+import type { GatewayPacket, HelloData, IdentifyData, RequestGuildMembersData, ResumeData } from "./packets.js";
 import type { FluxorConfig } from "../config.js";
 import { resolveConfig } from "../config.js";
 import { validateToken, getGatewayToken } from "../util/token.js";
-import { noopLogger, type Logger } from "../util/logger.js";
-import type { GatewayEvents } from "../types/gateway.js";
+import { noopLogger, prefixLogger, type Logger } from "../util/logger.js";
+import type { GatewayEvents, GuildMembersChunkEventData, PresenceEventData } from "../types/gateway.js";
+import type { GuildMember } from "../types/models.js";
+import { acquireSlot, createBucketState, type BucketState } from "../rateLimit/RateLimitStore.js";
+import type { IdentifyThrottle } from "./ShardManager.js";
+import { ZlibStreamInflater, type GatewayCompression } from "./compression.js";
+import { resolveEncoding, type GatewayEncoding } from "./encoding.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Connection state
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Connection state of a `GatewayClient`. */
+export enum GatewayStatus {
+  /** Constructed, `connect()` not called yet. */
+  Idle = "idle",
+  /** Opening the WebSocket and waiting for HELLO. */
+  Connecting = "connecting",
+  /** HELLO received — waiting for an identify slot or for READY. */
+  Identifying = "identifying",
+  /** RESUME sent — waiting for RESUMED. */
+  Resuming = "resuming",
+  /** READY / RESUMED received — events are flowing. */
+  Ready = "ready",
+  /** Connection lost — waiting out the backoff before the next attempt. */
+  Reconnecting = "reconnecting",
+  /** Terminal: destroyed, closed with a fatal code, or out of reconnect attempts. */
+  Disconnected = "disconnected",
+}
+
+/** Allowed transitions — anything else indicates a bug and is logged. */
+const TRANSITIONS: Record<GatewayStatus, readonly GatewayStatus[]> = {
+  [GatewayStatus.Idle]: [GatewayStatus.Connecting, GatewayStatus.Disconnected],
+  [GatewayStatus.Connecting]: [
+    GatewayStatus.Identifying,
+    GatewayStatus.Resuming,
+    GatewayStatus.Reconnecting,
+    GatewayStatus.Disconnected,
+  ],
+  [GatewayStatus.Identifying]: [GatewayStatus.Ready, GatewayStatus.Reconnecting, GatewayStatus.Disconnected],
+  [GatewayStatus.Resuming]: [GatewayStatus.Ready, GatewayStatus.Reconnecting, GatewayStatus.Disconnected],
+  [GatewayStatus.Ready]: [GatewayStatus.Reconnecting, GatewayStatus.Disconnected],
+  [GatewayStatus.Reconnecting]: [GatewayStatus.Connecting, GatewayStatus.Disconnected],
+  [GatewayStatus.Disconnected]: [GatewayStatus.Connecting],
+};
+
+/** Payload of the `stateChange` event. */
+export interface GatewayStateChange {
+  from: GatewayStatus;
+  to: GatewayStatus;
+}
+
+/** Why a `GatewayClient` stopped for good. */
+export type GatewayDisconnectReason = "destroyed" | "fatalCloseCode" | "maxReconnectAttempts";
+
+/** Payload of the `disconnected` event. */
+export interface GatewayDisconnectedEventData {
+  reason: GatewayDisconnectReason;
+  /** Close code that ended the connection, for `fatalCloseCode`. */
+  closeCode?: number;
+  message: string;
+  /** The error `connect()` rejected with, for `fatalCloseCode`. */
+  error?: FluxorGatewayError;
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Typed event emitter helper
 // ─────────────────────────────────────────────────────────────────────────────
 
-type EventMap = GatewayEvents & {
+export type GatewayClientEvents = GatewayEvents & {
   /** Raw dispatch — fired for every event regardless of name. */
   raw: { event: string; data: unknown };
   /** Fired when the gateway WS closes (intentionally or not). */
@@ -33,8 +100,57 @@ type EventMap = GatewayEvents & {
   debug: string;
   /** Heartbeat ACK with round-trip latency in ms. */
   HEARTBEAT_ACK: number;
+  /** Fired on every `status` transition. */
+  stateChange: GatewayStateChange;
+  /** Fired once when the client enters the terminal `disconnected` status. */
+  disconnected: GatewayDisconnectedEventData;
 };
 
+type EventMap = GatewayClientEvents;
+
+/** Packets the gateway accepts per connection per `GATEWAY_SEND_WINDOW`. */
+export const GATEWAY_SEND_LIMIT = 120;
+/** Length of the gateway send window in ms. */
+export const GATEWAY_SEND_WINDOW = 60_000;
+
+/** Options for `GatewayClient.fetchGuildMembers`. */
+export interface FetchGuildMembersOptions {
+  /** Username prefix to match. Default: `""` (every member, when `limit` is `0`). */
+  query?: string;
+  /** Maximum members to return; `0` means no limit. Default: `0`. */
+  limit?: number;
+  /** Fetch these members instead of querying. */
+  userIds?: string[];
+  /** Include presences. Default: `false`. */
+  presences?: boolean;
+  /** Reject if no chunk arrives for this many ms. Default: `10 000`. */
+  timeout?: number;
+}
+
+/** Aggregated result of a `fetchGuildMembers` request. */
+export interface GuildMembersResult {
+  guildId: string;
+  members: GuildMember[];
+  presences: PresenceEventData[];
+  /** Requested `userIds` that are not in the guild. */
+  notFound: string[];
+}
+
+interface PendingMemberRequest {
+  result: GuildMembersResult;
+  received: number;
+  timeoutMs: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (result: GuildMembersResult) => void;
+  reject: (err: Error) => void;
+}
+
+interface OutboundCommand {
+  packet: GatewayPacket;
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
 type Listener<T> = (payload: T) => void;
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -47,24 +163,44 @@ export class GatewayClient {
   private readonly _config: ReturnType<typeof resolveConfig>;
   private readonly _log: Logger;
   private readonly _emitter = new EventEmitter();
+  private readonly _identifyThrottle: IdentifyThrottle | null;
+  private readonly _encoding: GatewayEncoding;
 
   private _ws: WebSocket | null = null;
+  private _inflater: ZlibStreamInflater | null = null;
+  private _inbound: Promise<void> = Promise.resolve();
+  private _outbound: OutboundCommand[] = [];
+  private _sendWindow: BucketState = createBucketState();
+  private _heartbeatReserve = 3;
+  private _flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private _status = GatewayStatus.Idle;
+  private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly _memberRequests = new Map<string, PendingMemberRequest>();
   private _sequence = 0;
   private _sessionId = "";
+  private _resumeUrl: string | null = null;
+  private _sessionRestored = false;
+  private _sessionSaveTimer: ReturnType<typeof setInterval> | null = null;
+  private _settleConnect: (() => void) | null = null;
   private _heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private _heartbeatStart: ReturnType<typeof setTimeout> | null = null;
   private _heartbeatAcked = true;
   private _heartbeatSentAt = 0;
   private _lastPing = -1;
   private _reconnectAttempts = 0;
-  private _isConnecting = false;
-  private _isReconnecting = false;
-  private _destroyed = false;
 
-  constructor(token: string, config?: FluxorConfig) {
+  /**
+   * @param identifyThrottle Shared by the shards of a `ShardManager` so their
+   *                         IDENTIFYs respect the gateway's identify concurrency.
+   */
+  constructor(token: string, config?: FluxorConfig, identifyThrottle?: IdentifyThrottle) {
     validateToken(token);
     this.token = token;
     this._config = resolveConfig(config);
-    this._log = this._config.logger ?? noopLogger;
+    const log = this._config.logger ?? noopLogger;
+    this._log = this._config.shard ? prefixLogger(log, `[Shard ${this._config.shard[0]}] `) : log;
+    this._identifyThrottle = identifyThrottle ?? null;
+    this._encoding = resolveEncoding(this._config.encoding);
 
     // Prevent Node from crashing on unhandled 'error' events.
     // Users can still add their own listener via .on("error", ...).
@@ -82,6 +218,26 @@ export class GatewayClient {
     return this._lastPing;
   }
 
+  /** Current connection state. */
+  get status(): GatewayStatus {
+    return this._status;
+  }
+
+  /** Number of gateway commands waiting to be sent. */
+  get queuedCommands(): number {
+    return this._outbound.length;
+  }
+
+  /** This connection's shard ID (`0` when unsharded). */
+  get shardId(): number {
+    return this._config.shard?.[0] ?? 0;
+  }
+
+  /** Total shards this connection identified with (`1` when unsharded). */
+  get shardCount(): number {
+    return this._config.shard?.[1] ?? 1;
+  }
+
   // ── Public event helpers ────────────────────────────────────────────────
 
   /** Subscribe to a typed gateway event. */
@@ -148,107 +304,277 @@ export class GatewayClient {
 
   /**
    * Open a WebSocket connection, authenticate, and start receiving events.
-   * Resolves once READY or RESUMED is received.
+   * Resolves once READY or RESUMED is received. Rejects with a
+   * `FluxorGatewayError` if the gateway closes with a non-recoverable code.
    */
   async connect(): Promise<void> {
-    if (this._isConnecting) {
+    if (
+      this._status === GatewayStatus.Connecting ||
+      this._status === GatewayStatus.Identifying ||
+      this._status === GatewayStatus.Resuming
+    ) {
       this._log.warn("Connection attempt already in progress — skipping.");
       return;
     }
-    this._isConnecting = true;
-    this._destroyed = false;
+    this._clearReconnectTimer();
+    this._setStatus(GatewayStatus.Connecting);
 
-    try {
-      this._cleanup();
-
-      await new Promise<void>((resolve, _reject) => {
-        const url = this._config.gatewayUrl;
-        this._log.info(`Connecting to gateway ${url} ...`);
-        this._ws = new WebSocket(url);
-
-        // Track whether the promise has already settled so we don't
-        // call resolve/reject twice.
-        let settled = false;
-        const settle = (fn: () => void) => {
-          if (!settled) {
-            settled = true;
-            fn();
-          }
-        };
-
-        this._ws.on("open", () => {
-          this._log.info("WebSocket connected.");
-          // IDENTIFY is sent after we receive HELLO.
-        });
-
-        this._ws.on("message", (raw: WebSocket.Data) => {
-          try {
-            this._handleMessage(raw.toString(), () => settle(resolve));
-          } catch (err) {
-            this._log.error("Error in gateway message handler", err);
-          }
-        });
-
-        this._ws.on("close", (code: number, reason: Buffer) => {
-          const reasonStr = reason.toString();
-          this._log.warn(`WebSocket closed: code=${code} reason="${reasonStr}"`);
-          this._stopHeartbeat();
-          this._isConnecting = false;
-          this._emitter.emit("close", { code, reason: reasonStr });
-
-          // ── Close code session cleanup (4004/4007/4009) ────────
-          this._handleCloseCode(code);
+    this._cleanup();
+    await this._restoreSession();
+
+    await new Promise<void>((resolve, reject) => {
+      const url = this._gatewayUrl();
+      this._log.info(`Connecting to gateway ${url} ...`);
+      this._ws = new WebSocket(url, this._socketOptions());
+      // zlib-stream state and the send budget are per connection.
+      this._inflater = this._compression() === "zlib-stream" ? new ZlibStreamInflater() : null;
+      this._sendWindow = createBucketState();
+
+      // Track whether the promise has already settled so we don't
+      // call resolve/reject twice.
+      let settled = false;
+      const settle = (fn: () => void) => {
+        if (!settled) {
+          settled = true;
+          this._settleConnect = null;
+          fn();
+        }
+      };
+      // _cleanup() detaches our socket listeners — let it settle us too.
+      this._settleConnect = () => settle(resolve);
+
+      this._ws.on("open", () => {
+        this._log.info("WebSocket connected.");
+        // IDENTIFY is sent after we receive HELLO.
+      });
+
+      this._ws.on("message", (raw: WebSocket.RawData) => {
+        this._receive(raw, () => settle(resolve));
+      });
+
+      this._ws.on("close", (code: number, reason: Buffer) => {
+        const reasonStr = reason.toString();
+        this._log.warn(`WebSocket closed: code=${code} reason="${reasonStr}"`);
+        this._stopHeartbeat();
+        this._emitter.emit("close", { code, reason: reasonStr });
+
+        // ── Close code session cleanup (4004/4007/4009) ────────
+        this._handleCloseCode(code);
 
+        if (shouldReconnectForCode(code)) {
           // Resolve the connect promise so the caller isn't left hanging.
           settle(resolve);
+          this._scheduleReconnect();
+        } else {
+          const error = new FluxorGatewayError(code, reasonStr);
+          this._log.error(`${error.message} Not reconnecting.`);
+          this._emitter.emit("error", error);
+          this._disconnect("fatalCloseCode", error.message, code, error);
+          this._invokeFatalClose(error);
+          settle(() => reject(error));
+        }
+      });
 
-          if (!this._destroyed && shouldReconnectForCode(code)) {
-            this._scheduleReconnect();
-          } else if (!shouldReconnectForCode(code)) {
-            this._log.error(`Non-recoverable close code ${code}. Not reconnecting.`);
-          }
-        });
-
-        this._ws.on("error", (err: Error) => {
-          this._log.error("WebSocket error", err);
-          this._emitter.emit("error", err);
-          // Don't reject — the close handler fires right after and
-          // will resolve the promise + schedule a reconnect.
-        });
+      this._ws.on("error", (err: Error) => {
+        this._log.error("WebSocket error", err);
+        this._emitter.emit("error", err);
+        // Don't reject — the close handler fires right after and
+        // will resolve the promise + schedule a reconnect.
       });
-    } finally {
-      this._isConnecting = false;
-    }
+    });
   }
 
-  /** Gracefully close the connection. Does **not** attempt to reconnect. */
+  /**
+   * Gracefully close the connection. Does **not** attempt to reconnect.
+   * Queued commands are rejected. With a `sessionStore`, the session is saved
+   * and left open on the server so the next process can RESUME it.
+   */
   destroy(): void {
-    this._destroyed = true;
-    this._cleanup();
+    this._clearReconnectTimer();
+    this._stopSessionSaves();
+    const keepSession = !!this._config.sessionStore && !!this._sessionId;
+    if (keepSession) void this.saveSession();
+    // Closing with 1000 ends the session server-side; any other code keeps it resumable.
+    this._cleanup(keepSession ? 4000 : 1000);
+    for (const command of this._outbound.splice(0)) {
+      command.reject(new Error("Gateway client destroyed before the command was sent."));
+    }
+    for (const [nonce, request] of this._memberRequests) {
+      this._settleMemberRequest(nonce, request, new Error("Gateway client destroyed before all member chunks arrived."));
+    }
+    this._disconnect("destroyed", "Gateway client destroyed.");
     this._log.info("Gateway client destroyed.");
   }
 
+  // ── Internal: state machine ───────────────────────────────────────────
+
+  private _setStatus(to: GatewayStatus): void {
+    const from = this._status;
+    if (from === to) return;
+    if (!TRANSITIONS[from].includes(to)) {
+      this._log.warn(`Unexpected gateway state transition ${from} → ${to}.`);
+    }
+    this._status = to;
+    this._log.debug(`Gateway status: ${from} → ${to}`);
+    this._emitter.emit("stateChange", { from, to });
+  }
+
+  /** Enter the terminal `disconnected` status and announce why. */
+  private _disconnect(
+    reason: GatewayDisconnectReason,
+    message: string,
+    closeCode?: number,
+    error?: FluxorGatewayError,
+  ): void {
+    if (this._status === GatewayStatus.Disconnected) return;
+    this._setStatus(GatewayStatus.Disconnected);
+    this._emitter.emit("disconnected", { reason, closeCode, message, error });
+  }
+
+  private _invokeFatalClose(error: FluxorGatewayError): void {
+    try {
+      this._config.onFatalClose?.(error);
+    } catch (err) {
+      this._log.error("onFatalClose callback threw", err);
+    }
+  }
+
+  private _clearReconnectTimer(): void {
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+    }
+  }
+
+  // ── Session persistence ───────────────────────────────────────────────
+
+  /** Store key for this shard's session. */
+  get sessionKey(): string {
+    return `shard-${this.shardId}-of-${this.shardCount}`;
+  }
+
+  /** Save the current session to the configured `sessionStore` (no-op without one). */
+  async saveSession(): Promise<void> {
+    const store = this._config.sessionStore;
+    if (!store || !this._sessionId) return;
+    try {
+      await store.save(this.sessionKey, {
+        sessionId: this._sessionId,
+        sequence: this._sequence,
+        resumeUrl: this._resumeUrl ?? undefined,
+        updatedAt: Date.now(),
+      });
+    } catch (err) {
+      this._log.error("Failed to save gateway session", err);
+    }
+  }
+
+  /** Load a saved session once, before the first connection, so it can RESUME. */
+  private async _restoreSession(): Promise<void> {
+    const store = this._config.sessionStore;
+    if (!store || this._sessionRestored || this._sessionId) return;
+    this._sessionRestored = true;
+    try {
+      const saved = await store.load(this.sessionKey);
+      if (!saved) return;
+      this._sessionId = saved.sessionId;
+      this._sequence = saved.sequence;
+      this._resumeUrl = saved.resumeUrl ?? null;
+      this._log.info(`Restored session ${saved.sessionId} at seq ${saved.sequence} — will try to RESUME.`);
+    } catch (err) {
+      this._log.error("Failed to load gateway session", err);
+    }
+  }
+
+  /** Forget the session so the next connection sends a fresh IDENTIFY. */
+  private _clearSession(): void {
+    this._sessionId = "";
+    this._sequence = 0;
+    this._resumeUrl = null;
+    this._config.sessionStore?.delete(this.sessionKey).catch((err) => {
+      this._log.error("Failed to delete gateway session", err);
+    });
+  }
+
+  private _startSessionSaves(): void {
+    if (!this._config.sessionStore) return;
+    void this.saveSession();
+    if (this._sessionSaveTimer) return;
+    this._sessionSaveTimer = setInterval(() => void this.saveSession(), this._config.sessionSaveInterval ?? 30_000);
+    this._sessionSaveTimer.unref();
+  }
+
+  private _stopSessionSaves(): void {
+    if (this._sessionSaveTimer) {
+      clearInterval(this._sessionSaveTimer);
+      this._sessionSaveTimer = null;
+    }
+  }
+
   // ── Purpose-built public gateway methods ──────────────────────────────
+  //
+  // Commands are queued until the session is READY / RESUMED and sent within
+  // the connection's send budget. Each returns a promise that resolves once
+  // the packet has been written to the socket.
 
   /** Update the client's presence on the gateway. */
-  updatePresence(presence: FluxorConfig["presence"]): void {
-    this._send({
+  updatePresence(presence: FluxorConfig["presence"]): Promise<void> {
+    return this._enqueue({
       op: FluxorOpCode.PresenceUpdate,
       d: presence,
     });
   }
 
-  /** Request guild member data from the gateway. */
-  requestGuildMembers(guildId: string, query = "", limit = 0): void {
-    this._send({
+  /**
+   * Request guild member data from the gateway. Members arrive as
+   * `GUILD_MEMBERS_CHUNK` events — use `fetchGuildMembers` to await them.
+   */
+  requestGuildMembers(guildId: string, query = "", limit = 0): Promise<void> {
+    return this._enqueue({
       op: FluxorOpCode.RequestGuildMembers,
       d: { guild_id: guildId, query, limit },
     });
   }
 
+  /**
+   * Request guild members and wait for every `GUILD_MEMBERS_CHUNK` of the
+   * response. Rejects if no chunk arrives within `timeout` ms.
+   *
+   * ```ts
+   * const { members } = await gateway.fetchGuildMembers(guildId);
+   * ```
+   */
+  fetchGuildMembers(guildId: string, options: FetchGuildMembersOptions = {}): Promise<GuildMembersResult> {
+    const nonce = randomBytes(16).toString("hex");
+    const d: RequestGuildMembersData = {
+      guild_id: guildId,
+      limit: options.limit ?? 0,
+      presences: options.presences ?? false,
+      nonce,
+    };
+    if (options.userIds) d.user_ids = options.userIds;
+    else d.query = options.query ?? "";
+
+    return new Promise<GuildMembersResult>((resolve, reject) => {
+      const request: PendingMemberRequest = {
+        result: { guildId, members: [], presences: [], notFound: [] },
+        received: 0,
+        timeoutMs: options.timeout ?? 10_000,
+        timer: null,
+        resolve,
+        reject,
+      };
+      this._memberRequests.set(nonce, request);
+
+      this._enqueue({ op: FluxorOpCode.RequestGuildMembers, d })
+        .then(() => this._armMemberTimeout(nonce, request))
+        .catch((err: Error) => this._settleMemberRequest(nonce, request, err));
+    });
+  }
+
   /** Update the bot's voice state (join / leave / move voice channels). */
-  updateVoiceState(guildId: string, channelId: string | null, selfMute = false, selfDeaf = false): void {
-    this._send({
+  updateVoiceState(guildId: string, channelId: string | null, selfMute = false, selfDeaf = false): Promise<void> {
+    return this._enqueue({
       op: FluxorOpCode.VoiceStateUpdate,
       d: {
         guild_id: guildId,
@@ -260,46 +586,203 @@ export class GatewayClient {
   }
 
   /** Connect to / leave a DM call. */
-  connectCall(channelId: string): void {
-    this._send({
+  connectCall(channelId: string): Promise<void> {
+    return this._enqueue({
       op: FluxorOpCode.CallConnect,
       d: { channel_id: channelId },
     });
   }
 
   /** Subscribe to guild events. */
-  subscribeGuild(guildId: string): void {
-    this._send({
+  subscribeGuild(guildId: string): Promise<void> {
+    return this._enqueue({
       op: FluxorOpCode.GuildSubscriptions,
       d: { guild_id: guildId },
     });
   }
 
-  // ── Internal: send helper (restricted visibility) ─────────────────────
+  // ── Internal: member chunk aggregation ────────────────────────────────
+
+  private _handleMembersChunk(chunk: GuildMembersChunkEventData): void {
+    const request = chunk.nonce ? this._memberRequests.get(chunk.nonce) : undefined;
+    if (!request) return;
 
+    request.result.members.push(...(chunk.members ?? []));
+    if (chunk.presences) request.result.presences.push(...chunk.presences);
+    if (chunk.not_found) request.result.notFound.push(...chunk.not_found);
+    request.received++;
+
+    if (request.received >= chunk.chunk_count) {
+      this._settleMemberRequest(chunk.nonce!, request);
+    } else {
+      this._armMemberTimeout(chunk.nonce!, request);
+    }
+  }
+
+  /** (Re)start the idle timeout for a member request. */
+  private _armMemberTimeout(nonce: string, request: PendingMemberRequest): void {
+    if (!this._memberRequests.has(nonce)) return;
+    if (request.timer) clearTimeout(request.timer);
+    request.timer = setTimeout(() => {
+      this._settleMemberRequest(
+        nonce,
+        request,
+        new Error(
+          `fetchGuildMembers(${request.result.guildId}) timed out after ${request.timeoutMs}ms ` +
+            `(${request.received} chunks received)`,
+        ),
+      );
+    }, request.timeoutMs);
+  }
+
+  private _settleMemberRequest(nonce: string, request: PendingMemberRequest, err?: Error): void {
+    if (request.timer) clearTimeout(request.timer);
+    this._memberRequests.delete(nonce);
+    if (err) request.reject(err);
+    else request.resolve(request.result);
+  }
+
+  // ── Internal: send helpers (restricted visibility) ────────────────────
+
+  /**
+   * Send a connection-control packet (heartbeat, IDENTIFY, RESUME) right away.
+   * These bypass the command queue but still count against the send budget.
+   */
   private _send<T>(data: T): void {
     if (!this._ws || this._ws.readyState !== WebSocket.OPEN) {
       this._log.warn("Cannot send — WebSocket not open.");
       return;
     }
-    const json = JSON.stringify(data);
-    this._log.debug(`Sending gateway packet: ${json}`);
-    this._ws.send(json);
+    acquireSlot(this._sendWindow, { limit: GATEWAY_SEND_LIMIT, windowMs: GATEWAY_SEND_WINDOW });
+    this._write(data);
+  }
+
+  private _write<T>(data: T): void {
+    this._log.debug(`Sending gateway packet: ${JSON.stringify(data)}`);
+    this._ws!.send(this._encoding.encode(data));
+  }
+
+  /** Queue a command; resolves once it has been written to the socket. */
+  private _enqueue(packet: Omit<GatewayPacket, "s" | "t">): Promise<void> {
+    const promise = new Promise<void>((resolve, reject) => {
+      this._outbound.push({ packet: { ...packet, s: null, t: null }, resolve, reject });
+    });
+    // Callers that fire and forget shouldn't see unhandled rejections on destroy().
+    promise.catch(() => {});
+    this._flushOutbound();
+    return promise;
+  }
+
+  /** Send queued commands while the session is ready and the budget allows. */
+  private _flushOutbound(): void {
+    if (this._flushTimer) return;
+
+    // Leave room for the heartbeats due within one send window.
+    const limits = { limit: GATEWAY_SEND_LIMIT - this._heartbeatReserve, windowMs: GATEWAY_SEND_WINDOW };
+    while (
+      this._outbound.length > 0 &&
+      this._status === GatewayStatus.Ready &&
+      this._ws?.readyState === WebSocket.OPEN
+    ) {
+      const waitMs = acquireSlot(this._sendWindow, limits);
+      if (waitMs > 0) {
+        this._log.debug(`Gateway send budget exhausted — ${this._outbound.length} queued, retry in ${waitMs}ms.`);
+        this._flushTimer = setTimeout(() => {
+          this._flushTimer = null;
+          this._flushOutbound();
+        }, waitMs);
+        return;
+      }
+
+      const command = this._outbound.shift()!;
+      try {
+        this._write(command.packet);
+        command.resolve();
+      } catch (err) {
+        command.reject(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  }
+
+  // ── Internal: connection options ──────────────────────────────────────
+
+  private _compression(): GatewayCompression | false | undefined {
+    const compress = this._config.compress;
+    return compress === true ? "zlib-stream" : compress;
+  }
+
+  /**
+   * Gateway URL with the query parameters for the configured encoding and
+   * compression. RESUMEs go to the server-provided resume URL when known.
+   */
+  private _gatewayUrl(): string {
+    const configured = new URL(this._config.gatewayUrl);
+    const url = this._sessionId && this._resumeUrl ? new URL(this._resumeUrl) : configured;
+    for (const [key, value] of configured.searchParams) {
+      if (!url.searchParams.has(key)) url.searchParams.set(key, value);
+    }
+    url.searchParams.set("encoding", this._encoding.name);
+    if (this._compression() === "zlib-stream") url.searchParams.set("compress", "zlib-stream");
+    return url.toString();
+  }
+
+  private _socketOptions(): WebSocket.ClientOptions {
+    switch (this._compression()) {
+      case "per-message-deflate":
+        return { perMessageDeflate: true };
+      case "zlib-stream":
+      case false:
+        // zlib-stream frames are already compressed — don't deflate twice.
+        return { perMessageDeflate: false };
+      default:
+        return {};
+    }
   }
 
   // ── Internal: message handling ──────────────────────────────────────────
 
-  private _handleMessage(raw: string, onReady?: () => void): void {
-    this._log.debug(`Gateway ← ${raw.length > 400 ? raw.slice(0, 400) + "…" : raw}`);
+  /** Decompress (if needed) and handle one WebSocket frame. */
+  private _receive(raw: WebSocket.RawData, onReady?: () => void): void {
+    const inflater = this._inflater;
+    if (!inflater) {
+      this._safeHandleMessage(toBuffer(raw), onReady);
+      return;
+    }
 
+    // Frames must pass through the shared inflate context in arrival order.
+    this._inbound = this._inbound
+      .then(async () => {
+        const message = await inflater.push(toBuffer(raw));
+        if (message && this._inflater === inflater) this._safeHandleMessage(message, onReady);
+      })
+      .catch((err) => {
+        if (this._inflater !== inflater) return;
+        this._log.error("Failed to inflate gateway frame — reconnecting.", err);
+        this._emitter.emit("error", err instanceof Error ? err : new Error(String(err)));
+        this._cleanup();
+        this._scheduleReconnect();
+      });
+  }
+
+  private _safeHandleMessage(data: Buffer, onReady?: () => void): void {
+    try {
+      this._handleMessage(data, onReady);
+    } catch (err) {
+      this._log.error("Error in gateway message handler", err);
+    }
+  }
+
+  private _handleMessage(data: Buffer, onReady?: () => void): void {
     let packet: GatewayPacket;
     try {
-      packet = JSON.parse(raw);
+      packet = this._encoding.decode(data);
     } catch {
-      this._log.warn("Failed to parse gateway message.");
+      this._log.warn(`Failed to decode gateway message (${this._encoding.name}).`);
       return;
     }
 
+    this._log.debug(`Gateway ← op=${packet.op} t=${packet.t ?? "-"} s=${packet.s ?? "-"} (${data.length} bytes)`);
+
     // Track sequence
     if (packet.s !== null && packet.s !== undefined) {
       this._sequence = packet.s;
@@ -327,10 +810,7 @@ export class GatewayClient {
       case FluxorOpCode.InvalidSession: {
         const resumable = packet.d as boolean;
         this._log.warn(`InvalidSession (resumable=${resumable})`);
-        if (!resumable) {
-          this._sessionId = "";
-          this._sequence = 0;
-        }
+        if (!resumable) this._clearSession();
         this._cleanup();
         this._scheduleReconnect();
         break;
@@ -361,8 +841,7 @@ export class GatewayClient {
         // These codes mean the session is dead — clear state so the next
         // connection does a fresh IDENTIFY instead of trying to RESUME.
         this._log.info(`Close code ${code}: clearing session state for fresh IDENTIFY.`);
-        this._sessionId = "";
-        this._sequence = 0;
+        this._clearSession();
         break;
     }
   }
@@ -372,17 +851,32 @@ export class GatewayClient {
   private _handleHello(data: HelloData): void {
     const interval = data.heartbeat_interval;
     this._log.info(`HELLO received — heartbeat interval ${interval}ms`);
+    this._heartbeatReserve = Math.ceil(GATEWAY_SEND_WINDOW / interval) + 1;
     this._startHeartbeat(interval);
 
     if (this._sessionId) {
       this._log.info(`Resuming session ${this._sessionId} at seq ${this._sequence}`);
+      this._setStatus(GatewayStatus.Resuming);
       this._sendResume();
     } else {
-      this._log.info("Sending IDENTIFY");
-      this._sendIdentify();
+      this._setStatus(GatewayStatus.Identifying);
+      void this._identify();
     }
   }
 
+  /** Send IDENTIFY once the identify throttle (if any) grants this shard a slot. */
+  private async _identify(): Promise<void> {
+    if (this._identifyThrottle) {
+      const ws = this._ws;
+      this._log.debug("Waiting for an identify slot.");
+      await this._identifyThrottle.wait(this.shardId);
+      // The connection may have dropped while we were queued.
+      if (this._status !== GatewayStatus.Identifying || this._ws !== ws) return;
+    }
+    this._log.info("Sending IDENTIFY");
+    this._sendIdentify();
+  }
+
   private _sendIdentify(): void {
     const payload: GatewayPacket<IdentifyData> = {
       op: FluxorOpCode.Identify,
@@ -395,6 +889,8 @@ export class GatewayClient {
         },
         presence: this._config.presence,
         ignored_gateway_events: this._config.ignoredGatewayEvents,
+        intents: this._config.intents,
+        shard: this._config.shard,
       },
       s: null,
       t: null,
@@ -424,7 +920,8 @@ export class GatewayClient {
 
     // Send first heartbeat with a jitter to avoid thundering herd.
     const jitter = Math.random() * intervalMs;
-    setTimeout(() => {
+    this._heartbeatStart = setTimeout(() => {
+      this._heartbeatStart = null;
       this._sendHeartbeat();
       this._heartbeatInterval = setInterval(() => {
         if (!this._heartbeatAcked) {
@@ -439,6 +936,10 @@ export class GatewayClient {
   }
 
   private _stopHeartbeat(): void {
+    if (this._heartbeatStart) {
+      clearTimeout(this._heartbeatStart);
+      this._heartbeatStart = null;
+    }
     if (this._heartbeatInterval) {
       clearInterval(this._heartbeatInterval);
       this._heartbeatInterval = null;
@@ -459,6 +960,9 @@ export class GatewayClient {
 
     if (!eventName) return;
 
+    // Feed pending fetchGuildMembers() calls even if the event itself is ignored.
+    if (eventName === "GUILD_MEMBERS_CHUNK") this._handleMembersChunk(data as GuildMembersChunkEventData);
+
     // Check ignored events
     if (this._config.ignoredGatewayEvents?.includes(eventName as keyof GatewayEvents)) return;
 
@@ -469,19 +973,24 @@ export class GatewayClient {
     if (eventName === "READY") {
       const ready = data as GatewayEvents["READY"];
       this._sessionId = ready?.session_id ?? "";
+      this._resumeUrl = typeof ready?.resume_gateway_url === "string" ? ready.resume_gateway_url : null;
       this._reconnectAttempts = 0;
-      this._isConnecting = false;
       this._log.info(`READY — session ${this._sessionId}`);
+      this._setStatus(GatewayStatus.Ready);
       this._emitter.emit("READY", ready);
+      this._flushOutbound();
+      this._startSessionSaves();
       onReady?.();
       return;
     }
 
     if (eventName === "RESUMED") {
       this._reconnectAttempts = 0;
-      this._isConnecting = false;
       this._log.info("Session RESUMED successfully.");
+      this._setStatus(GatewayStatus.Ready);
       this._emitter.emit("RESUMED", undefined);
+      this._flushOutbound();
+      this._startSessionSaves();
       onReady?.();
       return;
     }
@@ -493,25 +1002,24 @@ export class GatewayClient {
   // ── Reconnection ───────────────────────────────────────────────────────
 
   private _scheduleReconnect(): void {
-    if (this._destroyed) return;
+    if (this._status === GatewayStatus.Disconnected) return;
 
     // ── Concurrency guard — prevent parallel reconnect attempts ──
-    if (this._isReconnecting) {
+    if (this._status === GatewayStatus.Reconnecting) {
       this._log.debug("Reconnect already scheduled — skipping duplicate.");
       return;
     }
-    this._isReconnecting = true;
 
     // ── Check max attempts ──
     if (this._reconnectAttempts >= this._config.maxReconnectAttempts) {
-      this._log.error(
-        `Reached maximum reconnect attempts (${this._config.maxReconnectAttempts}). Giving up.`,
-      );
-      this._isReconnecting = false;
+      const message = `Reached maximum reconnect attempts (${this._config.maxReconnectAttempts}). Giving up.`;
+      this._log.error(message);
+      this._disconnect("maxReconnectAttempts", message);
       return;
     }
 
     this._reconnectAttempts++;
+    this._setStatus(GatewayStatus.Reconnecting);
 
     // Use configured base delay with exponential backoff + jitter
     const configBase = this._config.reconnectDelay;
@@ -523,9 +1031,8 @@ export class GatewayClient {
       `Reconnect attempt #${this._reconnectAttempts} in ${(delayMs / 1000).toFixed(1)}s`,
     );
 
-    setTimeout(() => {
-      this._isReconnecting = false;
-      if (this._destroyed) return;
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = null;
       this.connect().catch((err) => {
         this._log.error("Reconnection failed", err);
       });
@@ -534,8 +1041,16 @@ export class GatewayClient {
 
   // ── Cleanup ────────────────────────────────────────────────────────────
 
-  private _cleanup(): void {
+  private _cleanup(closeCode = 1000): void {
     this._stopHeartbeat();
+    if (this._flushTimer) {
+      clearTimeout(this._flushTimer);
+      this._flushTimer = null;
+    }
+    if (this._inflater) {
+      this._inflater.close();
+      this._inflater = null;
+    }
     if (this._ws) {
       try {
         this._ws.removeAllListeners();
@@ -543,12 +1058,19 @@ export class GatewayClient {
           this._ws.readyState === WebSocket.OPEN ||
           this._ws.readyState === WebSocket.CONNECTING
         ) {
-          this._ws.close(1000, "Client cleanup");
+          this._ws.close(closeCode, "Client cleanup");
         }
       } catch {
         // ignore
       }
       this._ws = null;
     }
+    this._settleConnect?.();
   }
 }
+
+function toBuffer(raw: WebSocket.RawData): Buffer {
+  if (Buffer.isBuffer(raw)) return raw;
+  if (Array.isArray(raw)) return Buffer.concat(raw);
+  return Buffer.from(raw);
+}
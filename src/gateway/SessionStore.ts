@@ -0,0 +1,111 @@
+/**
+ * Storage for gateway sessions, so a restarted process can RESUME instead of
+ * sending a fresh IDENTIFY (and losing the events sent while it was down).
+ *
+ * `GatewayClient` saves its session id, last sequence number and resume URL
+ * on READY / RESUMED, every `sessionSaveInterval` ms and on `destroy()`, and
+ * loads it on the first `connect()`. Sessions are keyed per shard.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/** A resumable gateway session. */
+export interface SessionData {
+  sessionId: string;
+  /** Last sequence number received. */
+  sequence: number;
+  /** Gateway URL to RESUME against, if the server provided one. */
+  resumeUrl?: string;
+  /** Epoch ms when the session was saved. */
+  updatedAt: number;
+}
+
+/** Pluggable session storage backend. */
+export interface SessionStore {
+  /** Load the session saved under `key`, or `null`. */
+  load(key: string): Promise<SessionData | null>;
+  /** Save (replace) the session under `key`. */
+  save(key: string, session: SessionData): Promise<void>;
+  /** Forget the session under `key` (it can no longer be resumed). */
+  delete(key: string): Promise<void>;
+}
+
+// ── In-memory store ─────────────────────────────────────────────────────────
+
+/**
+ * Keeps sessions in a `Map` — survives recreating a client inside the same
+ * process (e.g. hot reload), not a process restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly _sessions = new Map<string, SessionData>();
+
+  async load(key: string): Promise<SessionData | null> {
+    const session = this._sessions.get(key);
+    return session ? { ...session } : null;
+  }
+
+  async save(key: string, session: SessionData): Promise<void> {
+    this._sessions.set(key, { ...session });
+  }
+
+  async delete(key: string): Promise<void> {
+    this._sessions.delete(key);
+  }
+}
+
+// ── JSON file store ─────────────────────────────────────────────────────────
+
+/**
+ * Keeps every shard's session in one JSON file. Writes are serialized within
+ * the process and replace the file atomically (write to tmp, then rename).
+ * Give each process its own file.
+ */
+export class FileSessionStore implements SessionStore {
+  public readonly path: string;
+
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(key: string): Promise<SessionData | null> {
+    const sessions = await this._read();
+    return sessions[key] ?? null;
+  }
+
+  save(key: string, session: SessionData): Promise<void> {
+    return this._update((sessions) => {
+      sessions[key] = session;
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this._update((sessions) => {
+      delete sessions[key];
+    });
+  }
+
+  private async _read(): Promise<Record<string, SessionData>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as Record<string, SessionData>;
+    } catch {
+      return {};
+    }
+  }
+
+  /** Read-modify-write the file, one update at a time. */
+  private _update(fn: (sessions: Record<string, SessionData>) => void): Promise<void> {
+    const run = this._queue.then(async () => {
+      const sessions = await this._read();
+      fn(sessions);
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(sessions, null, 2));
+      await rename(tmp, this.path);
+    });
+    this._queue = run.catch(() => {});
+    return run;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Runs several gateway connections (shards) for one bot.
+ *
+ * Spawns a `GatewayClient` per shard with `[shardId, shardCount]` in its
+ * IDENTIFY, spaces IDENTIFYs according to the gateway's identify concurrency,
+ * and re-emits every shard's events with the originating shard ID.
+ *
+ * ```ts
+ * const shards = new ShardManager(token, { shardCount: 4, identifyConcurrency: 1 });
+ * shards.on("MESSAGE_CREATE", (msg, shardId) => { ... });
+ * await shards.connect();
+ * ```
+ */
+
+import { EventEmitter } from "node:events";
+import { GatewayClient, GatewayStatus, type GatewayClientEvents } from "./GatewayClient.js";
+import type { FluxorConfig } from "../config.js";
+import type { GatewayEvents } from "../types/gateway.js";
+
+/** Minimum spacing between IDENTIFYs in the same concurrency bucket. */
+export const DEFAULT_IDENTIFY_INTERVAL = 5_000;
+
+/** Per-shard connection summary returned by `ShardManager.status()`. */
+export interface ShardInfo {
+  id: number;
+  /** Current connection state. */
+  status: GatewayStatus;
+  /** Whether the shard has received READY / RESUMED since it last closed. */
+  ready: boolean;
+  /** Last heartbeat round-trip latency in ms, or -1 if not yet measured. */
+  ping: number;
+}
+
+/** Listener for a shard event — receives the payload and the shard it came from. */
+export type ShardListener<T> = (payload: T, shardId: number) => void;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IdentifyThrottle
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Grants IDENTIFY slots to shards. Shard `id` uses bucket `id % concurrency`;
+ * each bucket allows one IDENTIFY per `intervalMs`, in request order.
+ */
+export class IdentifyThrottle {
+  public readonly concurrency: number;
+  public readonly intervalMs: number;
+
+  private readonly _buckets = new Map<number, Promise<void>>();
+
+  constructor(concurrency = 1, intervalMs = DEFAULT_IDENTIFY_INTERVAL) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.intervalMs = intervalMs;
+  }
+
+  /** Resolves when `shardId` may send IDENTIFY. */
+  wait(shardId: number): Promise<void> {
+    const key = shardId % this.concurrency;
+    const turn = this._buckets.get(key) ?? Promise.resolve();
+    // The next shard in this bucket goes `intervalMs` after this one.
+    this._buckets.set(key, turn.then(() => sleep(this.intervalMs)));
+    return turn;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ShardManager
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ShardManager {
+  public readonly token: string;
+
+  /** Total shards across every process running this bot. */
+  public readonly shardCount: number;
+
+  private readonly _shards = new Map<number, GatewayClient>();
+  private readonly _emitter = new EventEmitter();
+
+  constructor(token: string, config?: FluxorConfig) {
+    this.token = token;
+
+    const sharded = config?.shardCount !== undefined;
+    this.shardCount = config?.shardCount ?? 1;
+    if (!Number.isInteger(this.shardCount) || this.shardCount < 1) {
+      throw new RangeError(`shardCount must be a positive integer, got ${this.shardCount}.`);
+    }
+
+    const ids = config?.shardIds ?? Array.from({ length: this.shardCount }, (_, i) => i);
+    if (ids.length === 0) throw new RangeError("shardIds must contain at least one shard.");
+    for (const id of ids) {
+      if (!Number.isInteger(id) || id < 0 || id >= this.shardCount) {
+        throw new RangeError(`Shard ID ${id} is out of range for shardCount ${this.shardCount}.`);
+      }
+    }
+
+    // Same as GatewayClient — don't crash on unhandled 'error' events.
+    this._emitter.on("error", () => {});
+
+    const throttle = new IdentifyThrottle(config?.identifyConcurrency ?? 1);
+    for (const id of ids) {
+      const shardConfig: FluxorConfig | undefined = sharded ? { ...config, shard: [id, this.shardCount] } : config;
+      const shard = new GatewayClient(token, shardConfig, throttle);
+      this._shards.set(id, shard);
+      this._forward(id, shard);
+    }
+  }
+
+  // ── Shard access ───────────────────────────────────────────────────────
+
+  /** Every shard run by this manager, in shard ID order. */
+  get shards(): GatewayClient[] {
+    return [...this._shards.entries()].sort(([a], [b]) => a - b).map(([, shard]) => shard);
+  }
+
+  /** The shard with the given ID, if this manager runs it. */
+  get(shardId: number): GatewayClient | undefined {
+    return this._shards.get(shardId);
+  }
+
+  /** ID of the shard that receives events for `guildId`. */
+  shardIdForGuild(guildId: string): number {
+    if (this.shardCount === 1) return 0;
+    return Number((BigInt(guildId) >> 22n) % BigInt(this.shardCount));
+  }
+
+  /** The shard that receives events for `guildId`, if this manager runs it. */
+  forGuild(guildId: string): GatewayClient | undefined {
+    return this._shards.get(this.shardIdForGuild(guildId));
+  }
+
+  /** Average heartbeat latency across shards that have measured one, or -1. */
+  get ping(): number {
+    const pings = this.shards.map((s) => s.ping).filter((p) => p >= 0);
+    if (pings.length === 0) return -1;
+    return Math.round(pings.reduce((sum, p) => sum + p, 0) / pings.length);
+  }
+
+  /** Status and latency of every shard. */
+  status(): ShardInfo[] {
+    return this.shards.map((shard) => ({
+      id: shard.shardId,
+      status: shard.status,
+      ready: shard.status === GatewayStatus.Ready,
+      ping: shard.ping,
+    }));
+  }
+
+  // ── Events ─────────────────────────────────────────────────────────────
+
+  /** Subscribe to an event from any shard. */
+  on<K extends keyof GatewayClientEvents>(event: K, listener: ShardListener<GatewayClientEvents[K]>): this {
+    this._emitter.on(event as string, listener);
+    return this;
+  }
+
+  /** Subscribe once to an event from any shard. */
+  once<K extends keyof GatewayClientEvents>(event: K, listener: ShardListener<GatewayClientEvents[K]>): this {
+    this._emitter.once(event as string, listener);
+    return this;
+  }
+
+  /** Unsubscribe from an event. */
+  off<K extends keyof GatewayClientEvents>(event: K, listener: ShardListener<GatewayClientEvents[K]>): this {
+    this._emitter.off(event as string, listener);
+    return this;
+  }
+
+  /** Wait for a gateway event from any shard. See `GatewayClient.waitFor`. */
+  waitFor<K extends keyof GatewayEvents>(
+    event: K,
+    options?: { filter?: (data: GatewayEvents[K], shardId: number) => boolean; timeout?: number },
+  ): Promise<GatewayEvents[K]> {
+    return new Promise<GatewayEvents[K]>((resolve, reject) => {
+      const filter = options?.filter;
+      const timeout = options?.timeout;
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const handler = (data: GatewayEvents[K], shardId: number) => {
+        if (filter && !filter(data, shardId)) return;
+        cleanup();
+        resolve(data);
+      };
+
+      const cleanup = () => {
+        this._emitter.off(event as string, handler);
+        if (timer) clearTimeout(timer);
+      };
+
+      this._emitter.on(event as string, handler);
+
+      if (timeout !== undefined && timeout > 0) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`waitFor("${event as string}") timed out after ${timeout}ms`));
+        }, timeout);
+      }
+    });
+  }
+
+  // ── Lifecycle ──────────────────────────────────────────────────────────
+
+  /**
+   * Connect every shard. Resolves once each has settled its first connection;
+   * IDENTIFYs are spaced out by the identify throttle. Rejects with the first
+   * shard's `FluxorGatewayError` if one closes with a non-recoverable code.
+   */
+  async connect(): Promise<void> {
+    await Promise.all(this.shards.map((shard) => shard.connect()));
+  }
+
+  /** Save every shard's session to the configured `sessionStore`. */
+  async saveSessions(): Promise<void> {
+    await Promise.all(this.shards.map((shard) => shard.saveSession()));
+  }
+
+  /** Close every shard. Does **not** attempt to reconnect. */
+  destroy(): void {
+    for (const shard of this._shards.values()) shard.destroy();
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────
+
+  /** Re-emit a shard's events on the manager, tagged with its ID. */
+  private _forward(id: number, shard: GatewayClient): void {
+    shard.on("raw", ({ event, data }) => {
+      this._emitter.emit("raw", { event, data }, id);
+      this._emitter.emit(event, event === "RESUMED" ? undefined : data, id);
+    });
+    shard.on("close", (payload) => this._emitter.emit("close", payload, id));
+    shard.on("stateChange", (change) => this._emitter.emit("stateChange", change, id));
+    shard.on("disconnected", (info) => this._emitter.emit("disconnected", info, id));
+    shard.on("error", (err) => this._emitter.emit("error", err, id));
+    shard.on("debug", (line) => this._emitter.emit("debug", line, id));
+    shard.on("HEARTBEAT_ACK", (latency) => this._emitter.emit("HEARTBEAT_ACK", latency, id));
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
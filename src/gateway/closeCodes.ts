@@ -33,3 +33,39 @@ export function shouldReconnect(code: number): boolean {
       return true;
   }
 }
+
+/** Human-readable explanation of a close code, including what to do about it. */
+export function describeCloseCode(code: number): string {
+  switch (code) {
+    case FluxorCloseCode.UnknownError:
+      return "The gateway hit an unknown error. Reconnecting.";
+    case FluxorCloseCode.UnknownOpCode:
+      return "The client sent an invalid opcode or payload.";
+    case FluxorCloseCode.DecodeError:
+      return "The client sent a payload the gateway could not decode.";
+    case FluxorCloseCode.NotAuthenticated:
+      return "The client sent a payload before identifying.";
+    case FluxorCloseCode.AuthenticationFailed:
+      return "The token is invalid. Check the token passed to the client.";
+    case FluxorCloseCode.AlreadyAuthenticated:
+      return "The client sent more than one IDENTIFY.";
+    case FluxorCloseCode.InvalidSequence:
+      return "The sequence sent when resuming was invalid. Starting a new session.";
+    case FluxorCloseCode.RateLimited:
+      return "The client sent payloads too quickly.";
+    case FluxorCloseCode.SessionTimedOut:
+      return "The session timed out. Starting a new session.";
+    case FluxorCloseCode.InvalidShard:
+      return "The shard sent in IDENTIFY is invalid. Check `shard` / `shardIds`.";
+    case FluxorCloseCode.ShardingRequired:
+      return "The bot is in too many guilds for one connection. Set `shardCount`.";
+    case FluxorCloseCode.InvalidApiVersion:
+      return "The gateway API version is invalid or no longer supported.";
+    case FluxorCloseCode.InvalidIntents:
+      return "The intents sent in IDENTIFY are invalid.";
+    case FluxorCloseCode.DisallowedIntents:
+      return "The bot requested intents it is not approved for.";
+    default:
+      return `The gateway closed the connection with code ${code}.`;
+  }
+}
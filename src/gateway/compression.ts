@@ -0,0 +1,67 @@
+/**
+ * Gateway transport compression.
+ *
+ * With `zlib-stream` the gateway deflates the whole connection as one zlib
+ * stream and flushes it (`Z_SYNC_FLUSH`) at the end of each message, so every
+ * binary frame must go through the same inflate context, in order. A message
+ * is complete once the received data ends with the `00 00 ff ff` flush marker.
+ */
+
+import { constants, createInflate, type Inflate } from "node:zlib";
+
+/**
+ * Transport compression for the gateway connection:
+ * - `"zlib-stream"` — whole-connection zlib stream (`compress=zlib-stream`).
+ * - `"per-message-deflate"` — the WebSocket `permessage-deflate` extension.
+ */
+export type GatewayCompression = "zlib-stream" | "per-message-deflate";
+
+const ZLIB_SUFFIX = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+/** Incremental inflater for one `zlib-stream` connection. */
+export class ZlibStreamInflater {
+  private readonly _inflate: Inflate;
+  private _output: Buffer[] = [];
+  private _error: Error | null = null;
+
+  constructor() {
+    this._inflate = createInflate({ chunkSize: 64 * 1024 });
+    this._inflate.on("data", (chunk: Buffer) => this._output.push(chunk));
+    this._inflate.on("error", (err: Error) => {
+      this._error = err;
+    });
+  }
+
+  /**
+   * Feed one binary frame into the shared inflate context.
+   *
+   * @returns The decompressed message once `chunk` completes one, otherwise `null`.
+   */
+  push(chunk: Buffer): Promise<Buffer | null> {
+    if (this._error) return Promise.reject(this._error);
+    this._inflate.write(chunk);
+    if (!endsWithSuffix(chunk)) return Promise.resolve(null);
+
+    return new Promise<Buffer | null>((resolve, reject) => {
+      this._inflate.flush(constants.Z_SYNC_FLUSH, () => {
+        if (this._error) {
+          reject(this._error);
+          return;
+        }
+        const message = Buffer.concat(this._output);
+        this._output = [];
+        resolve(message);
+      });
+    });
+  }
+
+  /** Release the inflate context. */
+  close(): void {
+    this._output = [];
+    this._inflate.close();
+  }
+}
+
+function endsWithSuffix(chunk: Buffer): boolean {
+  return chunk.length >= 4 && chunk.subarray(chunk.length - 4).equals(ZLIB_SUFFIX);
+}
@@ -0,0 +1,309 @@
+/**
+ * Erlang External Term Format (ETF) codec for gateway payloads.
+ *
+ * Decoding maps terms onto plain JSON-like values:
+ * - binaries → `string`
+ * - atoms → `string`, except `nil` / `null` → `null` and `true` / `false` → booleans
+ * - lists and tuples → arrays, maps → objects; Erlang's compact "string" form
+ *   of a list of small integers → `number[]`
+ * - big integers → `number` up to `Number.MAX_SAFE_INTEGER` (in magnitude),
+ *   decimal `string` beyond it (snowflakes), so values never lose precision
+ *
+ * Encoding does the reverse: `null` / `undefined` → `nil`, strings → binaries,
+ * safe integers → small / 32-bit / big integers, other numbers → floats,
+ * arrays → lists, objects → maps with binary keys.
+ */
+
+import { inflateSync } from "node:zlib";
+
+const FORMAT_VERSION = 131;
+
+const enum Tag {
+  Compressed = 80,
+  NewFloat = 70,
+  SmallInteger = 97,
+  Integer = 98,
+  Float = 99,
+  Atom = 100,
+  SmallTuple = 104,
+  LargeTuple = 105,
+  Nil = 106,
+  String = 107,
+  List = 108,
+  Binary = 109,
+  SmallBig = 110,
+  LargeBig = 111,
+  SmallAtom = 115,
+  Map = 116,
+  AtomUtf8 = 118,
+  SmallAtomUtf8 = 119,
+}
+
+// ── Decoding ─────────────────────────────────────────────────────────────────
+
+/** Decode one ETF term (starting with the version byte) into a plain value. */
+export function decodeEtf(data: Buffer): unknown {
+  if (data[0] !== FORMAT_VERSION) {
+    throw new TypeError(`Unsupported ETF version byte ${data[0]}`);
+  }
+  const decoder = new Decoder(data, 1);
+  return decoder.term();
+}
+
+class Decoder {
+  constructor(
+    private _buf: Buffer,
+    private _pos: number,
+  ) {}
+
+  term(): unknown {
+    const tag = this._u8();
+    switch (tag) {
+      case Tag.Compressed: {
+        const size = this._u32();
+        const inflated = inflateSync(this._buf.subarray(this._pos));
+        if (inflated.length !== size) throw new TypeError("ETF compressed term has the wrong size");
+        this._buf = inflated;
+        this._pos = 0;
+        return this.term();
+      }
+      case Tag.NewFloat: {
+        const value = this._buf.readDoubleBE(this._pos);
+        this._pos += 8;
+        return value;
+      }
+      case Tag.SmallInteger:
+        return this._u8();
+      case Tag.Integer: {
+        const value = this._buf.readInt32BE(this._pos);
+        this._pos += 4;
+        return value;
+      }
+      case Tag.Float:
+        return parseFloat(this._latin1(31));
+      case Tag.Atom:
+        return atom(this._latin1(this._u16()));
+      case Tag.SmallAtom:
+        return atom(this._latin1(this._u8()));
+      case Tag.AtomUtf8:
+        return atom(this._utf8(this._u16()));
+      case Tag.SmallAtomUtf8:
+        return atom(this._utf8(this._u8()));
+      case Tag.SmallTuple:
+        return this._array(this._u8());
+      case Tag.LargeTuple:
+        return this._array(this._u32());
+      case Tag.Nil:
+        return [];
+      case Tag.String: {
+        // A list of small integers that Erlang packed into bytes.
+        const length = this._u16();
+        const items = Array.from(this._buf.subarray(this._pos, this._pos + length));
+        this._pos += length;
+        return items;
+      }
+      case Tag.List: {
+        const items = this._array(this._u32());
+        const tail = this.term();
+        if (!(Array.isArray(tail) && tail.length === 0)) items.push(tail);
+        return items;
+      }
+      case Tag.Binary:
+        return this._utf8(this._u32());
+      case Tag.SmallBig:
+        return this._big(this._u8());
+      case Tag.LargeBig:
+        return this._big(this._u32());
+      case Tag.Map: {
+        const arity = this._u32();
+        const out: Record<string, unknown> = {};
+        for (let i = 0; i < arity; i++) {
+          const key = this.term();
+          out[String(key)] = this.term();
+        }
+        return out;
+      }
+      default:
+        throw new TypeError(`Unsupported ETF tag ${tag} at offset ${this._pos - 1}`);
+    }
+  }
+
+  private _array(length: number): unknown[] {
+    const items = new Array<unknown>(length);
+    for (let i = 0; i < length; i++) items[i] = this.term();
+    return items;
+  }
+
+  /** Little-endian magnitude + sign byte → number if it's safe, else decimal string. */
+  private _big(digits: number): number | string {
+    const negative = this._u8() === 1;
+    let value = 0n;
+    for (let i = digits - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(this._buf[this._pos + i]!);
+    }
+    this._pos += digits;
+    const signed = negative ? -value : value;
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(signed) : signed.toString();
+  }
+
+  private _u8(): number {
+    return this._buf[this._pos++]!;
+  }
+
+  private _u16(): number {
+    const value = this._buf.readUInt16BE(this._pos);
+    this._pos += 2;
+    return value;
+  }
+
+  private _u32(): number {
+    const value = this._buf.readUInt32BE(this._pos);
+    this._pos += 4;
+    return value;
+  }
+
+  private _latin1(length: number): string {
+    const value = this._buf.toString("latin1", this._pos, this._pos + length);
+    this._pos += length;
+    return value;
+  }
+
+  private _utf8(length: number): string {
+    const value = this._buf.toString("utf8", this._pos, this._pos + length);
+    this._pos += length;
+    return value;
+  }
+}
+
+function atom(name: string): unknown {
+  switch (name) {
+    case "nil":
+    case "null":
+      return null;
+    case "true":
+      return true;
+    case "false":
+      return false;
+    default:
+      return name;
+  }
+}
+
+// ── Encoding ─────────────────────────────────────────────────────────────────
+
+/** Encode a plain value as an ETF term (with version byte). */
+export function encodeEtf(value: unknown): Buffer {
+  const encoder = new Encoder();
+  encoder.u8(FORMAT_VERSION);
+  encoder.term(value);
+  return encoder.finish();
+}
+
+class Encoder {
+  private _buf = Buffer.allocUnsafe(1024);
+  private _pos = 0;
+
+  term(value: unknown): void {
+    if (value === null || value === undefined) return this._atom("nil");
+    switch (typeof value) {
+      case "boolean":
+        return this._atom(value ? "true" : "false");
+      case "string":
+        return this._binary(Buffer.from(value, "utf8"));
+      case "number":
+        return this._number(value);
+      case "bigint":
+        return this._big(value);
+      case "object":
+        if (Buffer.isBuffer(value)) return this._binary(value);
+        if (Array.isArray(value)) return this._list(value);
+        return this._map(value as Record<string, unknown>);
+      default:
+        throw new TypeError(`Cannot encode ${typeof value} as ETF`);
+    }
+  }
+
+  u8(value: number): void {
+    this._reserve(1);
+    this._buf[this._pos++] = value;
+  }
+
+  finish(): Buffer {
+    return this._buf.subarray(0, this._pos);
+  }
+
+  private _number(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      this.u8(Tag.NewFloat);
+      this._reserve(8);
+      this._pos = this._buf.writeDoubleBE(value, this._pos);
+    } else if (value >= 0 && value <= 0xff) {
+      this.u8(Tag.SmallInteger);
+      this.u8(value);
+    } else if (value >= -0x8000_0000 && value <= 0x7fff_ffff) {
+      this.u8(Tag.Integer);
+      this._reserve(4);
+      this._pos = this._buf.writeInt32BE(value, this._pos);
+    } else {
+      this._big(BigInt(value));
+    }
+  }
+
+  private _big(value: bigint): void {
+    const negative = value < 0n;
+    let magnitude = negative ? -value : value;
+    const bytes: number[] = [];
+    while (magnitude > 0n) {
+      bytes.push(Number(magnitude & 0xffn));
+      magnitude >>= 8n;
+    }
+    this.u8(Tag.SmallBig);
+    this.u8(bytes.length);
+    this.u8(negative ? 1 : 0);
+    for (const b of bytes) this.u8(b);
+  }
+
+  private _atom(name: string): void {
+    this.u8(Tag.SmallAtomUtf8);
+    this.u8(name.length);
+    this._reserve(name.length);
+    this._pos += this._buf.write(name, this._pos, "latin1");
+  }
+
+  private _binary(data: Buffer): void {
+    this.u8(Tag.Binary);
+    this._u32(data.length);
+    this._reserve(data.length);
+    this._pos += data.copy(this._buf, this._pos);
+  }
+
+  private _list(items: unknown[]): void {
+    if (items.length === 0) return this.u8(Tag.Nil);
+    this.u8(Tag.List);
+    this._u32(items.length);
+    for (const item of items) this.term(item);
+    this.u8(Tag.Nil);
+  }
+
+  private _map(obj: Record<string, unknown>): void {
+    const entries = Object.entries(obj).filter(([, v]) => v !== undefined);
+    this.u8(Tag.Map);
+    this._u32(entries.length);
+    for (const [key, value] of entries) {
+      this._binary(Buffer.from(key, "utf8"));
+      this.term(value);
+    }
+  }
+
+  private _u32(value: number): void {
+    this._reserve(4);
+    this._pos = this._buf.writeUInt32BE(value, this._pos);
+  }
+
+  private _reserve(bytes: number): void {
+    if (this._pos + bytes <= this._buf.length) return;
+    const next = Buffer.allocUnsafe(Math.max(this._buf.length * 2, this._pos + bytes));
+    this._buf.copy(next, 0, 0, this._pos);
+    this._buf = next;
+  }
+}
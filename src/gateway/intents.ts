@@ -0,0 +1,120 @@
+/**
+ * Gateway intents — the groups of events a connection subscribes to.
+ *
+ * Pass the OR of the groups you need as the `intents` config option; the
+ * gateway then only dispatches those events. Events that belong to no group
+ * (READY, USER_*, ...) are always delivered.
+ */
+
+import type { GatewayEvents } from "../types/gateway.js";
+
+export enum GatewayIntents {
+  None = 0,
+  /** Guild create/update/delete, roles and channels. */
+  Guilds = 1 << 0,
+  /** Member add/update/remove. Privileged. */
+  GuildMembers = 1 << 1,
+  /** Bans. */
+  GuildModeration = 1 << 2,
+  /** Emoji and sticker updates. */
+  GuildExpressions = 1 << 3,
+  /** Webhook updates. */
+  GuildWebhooks = 1 << 5,
+  /** Invite create/delete. */
+  GuildInvites = 1 << 6,
+  /** Voice state updates. */
+  GuildVoiceStates = 1 << 7,
+  /** Presence updates. Privileged. */
+  GuildPresences = 1 << 8,
+  /** Messages in guild channels. */
+  GuildMessages = 1 << 9,
+  /** Reactions in guild channels. */
+  GuildMessageReactions = 1 << 10,
+  /** Typing in guild channels. */
+  GuildMessageTyping = 1 << 11,
+  /** Messages in DMs. */
+  DirectMessages = 1 << 12,
+  /** Reactions in DMs. */
+  DirectMessageReactions = 1 << 13,
+  /** Typing in DMs. */
+  DirectMessageTyping = 1 << 14,
+  /** Message `content`, `embeds` and `attachments` in guild messages. Privileged. */
+  MessageContent = 1 << 15,
+}
+
+/** Intents that must be enabled for the bot before it may request them. */
+export const PRIVILEGED_INTENTS =
+  GatewayIntents.GuildMembers | GatewayIntents.GuildPresences | GatewayIntents.MessageContent;
+
+/** Every intent. */
+export const ALL_INTENTS = Object.values(GatewayIntents)
+  .filter((value): value is number => typeof value === "number")
+  .reduce((all, bit) => all | bit, 0);
+
+/** Every intent except the privileged ones. */
+export const DEFAULT_INTENTS = ALL_INTENTS & ~PRIVILEGED_INTENTS;
+
+const MESSAGES = GatewayIntents.GuildMessages | GatewayIntents.DirectMessages;
+const REACTIONS = GatewayIntents.GuildMessageReactions | GatewayIntents.DirectMessageReactions;
+const TYPING = GatewayIntents.GuildMessageTyping | GatewayIntents.DirectMessageTyping;
+
+/** Intents that deliver each event — any one of them is enough. */
+export const EVENT_INTENTS: Partial<Record<keyof GatewayEvents, number>> = {
+  GUILD_CREATE: GatewayIntents.Guilds,
+  GUILD_UPDATE: GatewayIntents.Guilds,
+  GUILD_DELETE: GatewayIntents.Guilds,
+  GUILD_ROLE_CREATE: GatewayIntents.Guilds,
+  GUILD_ROLE_UPDATE: GatewayIntents.Guilds,
+  GUILD_ROLE_DELETE: GatewayIntents.Guilds,
+  GUILD_ROLE_UPDATE_BULK: GatewayIntents.Guilds,
+  CHANNEL_CREATE: GatewayIntents.Guilds,
+  CHANNEL_UPDATE: GatewayIntents.Guilds,
+  CHANNEL_DELETE: GatewayIntents.Guilds,
+  CHANNEL_UPDATE_BULK: GatewayIntents.Guilds,
+  CHANNEL_PINS_UPDATE: GatewayIntents.Guilds | GatewayIntents.DirectMessages,
+
+  GUILD_MEMBER_ADD: GatewayIntents.GuildMembers,
+  GUILD_MEMBER_UPDATE: GatewayIntents.GuildMembers,
+  GUILD_MEMBER_REMOVE: GatewayIntents.GuildMembers,
+
+  GUILD_BAN_ADD: GatewayIntents.GuildModeration,
+  GUILD_BAN_REMOVE: GatewayIntents.GuildModeration,
+
+  GUILD_EMOJIS_UPDATE: GatewayIntents.GuildExpressions,
+  GUILD_STICKERS_UPDATE: GatewayIntents.GuildExpressions,
+
+  WEBHOOKS_UPDATE: GatewayIntents.GuildWebhooks,
+
+  INVITE_CREATE: GatewayIntents.GuildInvites,
+  INVITE_DELETE: GatewayIntents.GuildInvites,
+
+  VOICE_STATE_UPDATE: GatewayIntents.GuildVoiceStates,
+
+  PRESENCE_UPDATE: GatewayIntents.GuildPresences,
+
+  MESSAGE_CREATE: MESSAGES,
+  MESSAGE_UPDATE: MESSAGES,
+  MESSAGE_DELETE: MESSAGES,
+  MESSAGE_DELETE_BULK: GatewayIntents.GuildMessages,
+
+  MESSAGE_REACTION_ADD: REACTIONS,
+  MESSAGE_REACTION_REMOVE: REACTIONS,
+  MESSAGE_REACTION_REMOVE_ALL: REACTIONS,
+  MESSAGE_REACTION_REMOVE_EMOJI: REACTIONS,
+
+  TYPING_START: TYPING,
+  TYPING_STOP: TYPING,
+};
+
+/** Whether a connection identified with `intents` receives `event`. */
+export function isEventDelivered(event: string, intents: number): boolean {
+  const required = EVENT_INTENTS[event as keyof GatewayEvents];
+  return required === undefined || (required & intents) !== 0;
+}
+
+/** Names of the intents set in `intents`, e.g. for logging. */
+export function intentNames(intents: number): string[] {
+  return Object.entries(GatewayIntents)
+    .filter(([, bit]) => typeof bit === "number" && bit !== 0 && (intents & bit) === bit)
+    .map(([name]) => name);
+}
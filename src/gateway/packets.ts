@@ -25,6 +25,23 @@ export interface IdentifyData {
   properties: Record<string, string>;
   presence?: PresenceData;
   ignored_gateway_events?: string[];
+  /** `GatewayIntents` bitfield — omitted to receive every event. */
+  intents?: number;
+  /** `[shardId, shardCount]` — omitted for unsharded connections. */
+  shard?: [number, number];
+}
+
+export interface RequestGuildMembersData {
+  guild_id: string;
+  /** Username prefix to match; `""` with `limit: 0` requests every member. */
+  query?: string;
+  limit: number;
+  /** Include member presences in the chunks. */
+  presences?: boolean;
+  /** Fetch specific members instead of querying. */
+  user_ids?: string[];
+  /** Echoed back in every `GUILD_MEMBERS_CHUNK` for this request. */
+  nonce?: string;
 }
 
 export interface ResumeData {
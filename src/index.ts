@@ -22,15 +22,51 @@
  */
 
 // ── High-level client ────────────────────────────────────────────────────────
-export { Client } from "./client/Client.js";
+export { Client, type ClientEventPayload } from "./client/Client.js";
+
+// ── Structures ───────────────────────────────────────────────────────────────
+export * as Structures from "./structures/index.js";
+
+// ── Caching ──────────────────────────────────────────────────────────────────
+export { ClientCache, DEFAULT_MESSAGE_CACHE_SIZE, type CacheConfig } from "./cache/ClientCache.js";
+export {
+  EntityCache,
+  type CacheOptions,
+  type CachePolicy,
+  type EntityCacheBackend,
+  type FetchOptions,
+} from "./cache/EntityCache.js";
+export { ScopedCache } from "./cache/ScopedCache.js";
+export { MemoryCacheAdapter, type CacheAdapter, type CacheAdapterFactory } from "./cache/CacheAdapter.js";
+export { FileCacheAdapter } from "./cache/FileCacheAdapter.js";
 
 // ── Low-level clients ────────────────────────────────────────────────────────
 export { ApiClient } from "./api/ApiClient.js";
-export { GatewayClient } from "./gateway/GatewayClient.js";
+export type { ApiClientEvents, RateLimitedEventData } from "./api/ApiClient.js";
+export {
+  GatewayClient,
+  GATEWAY_SEND_LIMIT,
+  GATEWAY_SEND_WINDOW,
+  GatewayStatus,
+  type GatewayClientEvents,
+  type GatewayStateChange,
+  type GatewayDisconnectReason,
+  type GatewayDisconnectedEventData,
+  type FetchGuildMembersOptions,
+  type GuildMembersResult,
+} from "./gateway/GatewayClient.js";
+export {
+  ShardManager,
+  IdentifyThrottle,
+  DEFAULT_IDENTIFY_INTERVAL,
+  type ShardInfo,
+  type ShardListener,
+} from "./gateway/ShardManager.js";
 
 // ── Config ───────────────────────────────────────────────────────────────────
-export type { FluxorConfig, PresenceData, StatusType } from "./config.js";
+export type { FluxorConfig, PresenceData, StatusType, RetryPolicy } from "./config.js";
 export {
+  DEFAULT_RETRY_POLICY,
   DEFAULT_API_BASE_URL,
   DEFAULT_GATEWAY_URL,
   DEFAULT_REQUEST_TIMEOUT,
@@ -42,14 +78,40 @@ export {
 export {
   FluxorApiError,
   FluxorRateLimitError,
+  FluxorQueueFullError,
   FluxorNotFoundError,
   FluxorForbiddenError,
+  FluxorGatewayError,
 } from "./errors.js";
 
 // ── Gateway internals (for advanced use) ─────────────────────────────────────
 export { FluxorOpCode } from "./gateway/opcodes.js";
-export { FluxorCloseCode, shouldReconnect } from "./gateway/closeCodes.js";
-export type { GatewayPacket, HelloData, IdentifyData, ResumeData } from "./gateway/packets.js";
+export { FluxorCloseCode, shouldReconnect, describeCloseCode } from "./gateway/closeCodes.js";
+export {
+  GatewayIntents,
+  PRIVILEGED_INTENTS,
+  ALL_INTENTS,
+  DEFAULT_INTENTS,
+  EVENT_INTENTS,
+  isEventDelivered,
+  intentNames,
+} from "./gateway/intents.js";
+export type {
+  GatewayPacket,
+  HelloData,
+  IdentifyData,
+  RequestGuildMembersData,
+  ResumeData,
+} from "./gateway/packets.js";
+export { ZlibStreamInflater, type GatewayCompression } from "./gateway/compression.js";
+export { JsonEncoding, EtfEncoding, type GatewayEncoding } from "./gateway/encoding.js";
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  type SessionStore,
+  type SessionData,
+} from "./gateway/SessionStore.js";
+export { encodeEtf, decodeEtf } from "./gateway/etf.js";
 
 // ── Enums ────────────────────────────────────────────────────────────────────
 export {
@@ -122,6 +184,9 @@ export type {
   UserNote,
   SavedMessage,
   // Mutation payloads
+  FileAttachment,
+  AttachmentPayload,
+  UploadedAttachment,
   CreateMessagePayload,
   EditMessagePayload,
   CreateGuildPayload,
@@ -171,6 +236,7 @@ export type {
   GuildEventData,
   GuildDeleteEventData,
   GuildMemberEventData,
+  GuildMembersChunkEventData,
   GuildBanEventData,
   GuildRoleEventData,
   GuildRoleDeleteEventData,
@@ -218,31 +284,66 @@ export {
   requireGuild,
   requireOwner,
   requirePermissions,
+  cooldown,
   StringParser,
   NumberParser,
   IntegerParser,
   BooleanParser,
   BigIntParser,
+  DurationParser,
+  UrlParser,
+  HexColorParser,
+  DateParser,
+  enumParser,
+  UserParser,
+  MemberParser,
+  ChannelParser,
+  RoleParser,
+  EmojiParser,
   defaultTypeParsers,
+  tokenize,
+  isCommandGroup,
 } from "./commands/index.js";
 export type {
   CommandServiceOptions,
+  PrefixResolver,
+  CooldownOptions,
+  CooldownScope,
+  Token,
 } from "./commands/index.js";
 export type {
   CommandDefinition,
+  CommandGroup,
+  CommandEntry,
   CommandResult,
   CommandSearchResult,
   CommandParameter,
+  CommandFlag,
   Precondition,
   PreconditionResult,
   TypeParser,
 } from "./commands/index.js";
 
 // ── Rate limiting (for advanced/inspection use) ──────────────────────────────
-export { RateLimitManager } from "./rateLimit/RateLimitManager.js";
+export { RateLimitManager, RequestPriority, type BucketInfo } from "./rateLimit/RateLimitManager.js";
 export { RateLimitBucket } from "./rateLimit/RateLimitBucket.js";
 export type { RateLimitConfig } from "./rateLimit/RateLimitConfig.js";
+export {
+  MemoryRateLimitStore,
+  createBucketState,
+  acquireSlot,
+  remainingSlots,
+  resetTime,
+  applyServer,
+} from "./rateLimit/RateLimitStore.js";
+export type {
+  RateLimitStore,
+  BucketLimits,
+  BucketState,
+  ServerBucketState,
+} from "./rateLimit/RateLimitStore.js";
+export { FileRateLimitStore, type FileRateLimitStoreOptions } from "./rateLimit/FileRateLimitStore.js";
 
 // ── Utilities ────────────────────────────────────────────────────────────────
 export { validateToken, getGatewayToken } from "./util/token.js";
-export { createConsoleLogger, noopLogger, type Logger } from "./util/logger.js";
+export { createConsoleLogger, noopLogger, prefixLogger, type Logger } from "./util/logger.js";
@@ -0,0 +1,140 @@
+/**
+ * Reference `RateLimitStore` that coordinates processes on one host.
+ *
+ * Each bucket is a small JSON file in a shared directory. Every operation
+ * takes an exclusive lock file (`open(..., "wx")`), reads the state, applies
+ * the transition and writes it back via rename, so worker processes running
+ * on the same token draw from one budget. Timestamps are epoch ms, which all
+ * processes on the host agree on.
+ */
+import { mkdir, open, readFile, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  acquireSlot,
+  applyServer,
+  createBucketState,
+  remainingSlots,
+  resetTime,
+  type BucketLimits,
+  type BucketState,
+  type RateLimitStore,
+} from "./RateLimitStore.js";
+
+export interface FileRateLimitStoreOptions {
+  /** Locks older than this (ms) are considered abandoned by a crashed process. Default: `5 000`. */
+  staleLockMs?: number;
+  /** Give up acquiring a lock after this many ms. Default: `10 000`. */
+  lockTimeoutMs?: number;
+}
+
+export class FileRateLimitStore implements RateLimitStore {
+  public readonly directory: string;
+
+  private readonly _staleLockMs: number;
+  private readonly _lockTimeoutMs: number;
+  private _ready: Promise<unknown> | null = null;
+
+  constructor(directory: string, options?: FileRateLimitStoreOptions) {
+    this.directory = directory;
+    this._staleLockMs = options?.staleLockMs ?? 5_000;
+    this._lockTimeoutMs = options?.lockTimeoutMs ?? 10_000;
+  }
+
+  async acquire(key: string, limits: BucketLimits): Promise<number> {
+    return this._update(key, (state) => acquireSlot(state, limits));
+  }
+
+  async getRemaining(key: string, limits: BucketLimits): Promise<number> {
+    return this._update(key, (state) => remainingSlots(state, limits));
+  }
+
+  async getResetTime(key: string, limits: BucketLimits): Promise<number> {
+    return this._update(key, (state) => resetTime(state, limits));
+  }
+
+  async applyServerState(key: string, limit: number, remaining: number, resetAfterMs: number): Promise<void> {
+    return this._update(key, (state) => applyServer(state, limit, remaining, resetAfterMs));
+  }
+
+  async reset(key: string): Promise<void> {
+    await this._withLock(key, () => rm(this._statePath(key), { force: true }));
+  }
+
+  async clear(): Promise<void> {
+    await this._ensureDir();
+    for (const file of await readdir(this.directory)) {
+      if (file.endsWith(".json")) await rm(join(this.directory, file), { force: true });
+    }
+  }
+
+  // ── internals ───────────────────────────────────────────────────────────
+
+  private _statePath(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  private _ensureDir(): Promise<unknown> {
+    this._ready ??= mkdir(this.directory, { recursive: true });
+    return this._ready;
+  }
+
+  /** Read-modify-write one bucket's state under its lock. */
+  private async _update<T>(key: string, fn: (state: BucketState) => T): Promise<T> {
+    return this._withLock(key, async () => {
+      const path = this._statePath(key);
+      let state: BucketState;
+      try {
+        state = JSON.parse(await readFile(path, "utf8")) as BucketState;
+      } catch {
+        state = createBucketState();
+      }
+
+      const result = fn(state);
+
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(state));
+      await rename(tmp, path);
+      return result;
+    });
+  }
+
+  private async _withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    await this._ensureDir();
+    const lockPath = `${this._statePath(key)}.lock`;
+    const deadline = Date.now() + this._lockTimeoutMs;
+
+    for (;;) {
+      try {
+        const handle = await open(lockPath, "wx");
+        await handle.close();
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+        await this._removeStaleLock(lockPath);
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for rate-limit lock ${lockPath}`);
+        }
+        await sleep(5 + Math.random() * 10);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await rm(lockPath, { force: true });
+    }
+  }
+
+  private async _removeStaleLock(lockPath: string): Promise<void> {
+    try {
+      const info = await stat(lockPath);
+      if (Date.now() - info.mtimeMs > this._staleLockMs) await rm(lockPath, { force: true });
+    } catch {
+      // Lock vanished between open and stat — just retry.
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
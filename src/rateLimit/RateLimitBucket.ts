@@ -2,31 +2,50 @@
  * Sliding-window rate-limit bucket.
  *
  * Tracks timestamps of recent requests inside a rolling window and blocks when
- * the limit is reached.  Thread-safety is handled via an async queue so only
- * one caller at a time mutates state (important in Node's single-threaded
- * event loop when multiple async callers race).
+ * the limit is reached.  The state lives in a `RateLimitStore` (in-memory by
+ * default), which performs each operation atomically — so buckets with the
+ * same key in different processes share one budget when they share a store.
+ *
+ * Once the server has reported this bucket's state via response headers
+ * (`applyServerState`), the server's limit / remaining / reset values take
+ * over from the local sliding window.
  */
+import { MemoryRateLimitStore, type BucketLimits, type RateLimitStore } from "./RateLimitStore.js";
 
 export class RateLimitBucket {
   public readonly bucketKey: string;
-  public readonly limit: number;
-  public readonly windowMs: number;
   public readonly exemptFromGlobal: boolean;
 
-  /** Timestamps (ms) of requests inside the current window. */
-  private readonly _timestamps: number[] = [];
-  private _queuePromise: Promise<void> = Promise.resolve();
+  private readonly _limits: BucketLimits;
+  private readonly _store: RateLimitStore;
+  private _serverLimit: number | null = null;
 
   constructor(
     bucketKey: string,
     limit: number,
     windowMs: number,
     exemptFromGlobal = false,
+    store: RateLimitStore = new MemoryRateLimitStore(),
   ) {
     this.bucketKey = bucketKey;
-    this.limit = limit;
-    this.windowMs = windowMs;
+    this._limits = { limit, windowMs };
     this.exemptFromGlobal = exemptFromGlobal;
+    this._store = store;
+  }
+
+  /** Maximum requests per window — the last server-reported limit once known. */
+  get limit(): number {
+    return this._serverLimit ?? this._limits.limit;
+  }
+
+  /** Configured window duration in ms. */
+  get windowMs(): number {
+    return this._limits.windowMs;
+  }
+
+  /** Whether this process has seen server-reported state for this bucket. */
+  get isServerTracked(): boolean {
+    return this._serverLimit !== null;
   }
 
   // ── public API ──────────────────────────────────────────────────────────
@@ -38,62 +57,34 @@ export class RateLimitBucket {
    *          retrying.  `0` means the slot was acquired immediately.
    */
   async acquire(): Promise<number> {
-    return this._enqueue(() => this._tryAcquire());
+    return this._store.acquire(this.bucketKey, this._limits);
   }
 
   /** How many requests can still be made inside the current window. */
   async getRemaining(): Promise<number> {
-    return this._enqueue(() => {
-      this._prune();
-      return this.limit - this._timestamps.length;
-    });
+    return this._store.getRemaining(this.bucketKey, this._limits);
   }
 
   /** Milliseconds until the oldest entry in the window expires. */
   async getResetTime(): Promise<number> {
-    return this._enqueue(() => {
-      this._prune();
-      if (this._timestamps.length === 0) return 0;
-      const oldest = this._timestamps[0]!;
-      return Math.max(0, oldest + this.windowMs - Date.now());
-    });
+    return this._store.getResetTime(this.bucketKey, this._limits);
   }
 
-  /** Clears all tracked timestamps. */
+  /** Clears all tracked timestamps and any server-reported state. */
   async reset(): Promise<void> {
-    return this._enqueue(() => {
-      this._timestamps.length = 0;
-    });
+    this._serverLimit = null;
+    return this._store.reset(this.bucketKey);
   }
 
-  // ── internals ───────────────────────────────────────────────────────────
-
-  private _prune(): void {
-    const cutoff = Date.now() - this.windowMs;
-    while (this._timestamps.length > 0 && this._timestamps[0]! < cutoff) {
-      this._timestamps.shift();
-    }
-  }
-
-  private _tryAcquire(): number {
-    this._prune();
-    if (this._timestamps.length < this.limit) {
-      this._timestamps.push(Date.now());
-      return 0; // acquired
-    }
-    // Window full — tell caller how long to wait.
-    const oldest = this._timestamps[0]!;
-    return Math.max(0, oldest + this.windowMs - Date.now());
-  }
-
-  /** Simple FIFO promise queue so mutations are serialised. */
-  private _enqueue<T>(fn: () => T): Promise<T> {
-    const run = this._queuePromise.then(fn);
-    // We only care about sequencing, not propagating errors to the queue.
-    this._queuePromise = run.then(
-      () => {},
-      () => {},
-    );
-    return run;
+  /**
+   * Replace local tracking with the state the server reported for this bucket.
+   *
+   * @param limit        `X-RateLimit-Limit`
+   * @param remaining    `X-RateLimit-Remaining`
+   * @param resetAfterMs Milliseconds until the window resets.
+   */
+  async applyServerState(limit: number, remaining: number, resetAfterMs: number): Promise<void> {
+    this._serverLimit = limit;
+    return this._store.applyServerState(this.bucketKey, limit, remaining, resetAfterMs);
   }
 }
@@ -1,10 +1,23 @@
 /**
  * Manages rate-limit buckets — mirrors Fluxer.Net/RateLimiting/RateLimitManager.
+ *
+ * Buckets start out with the static `RateLimitMappings` values and are
+ * corrected live from the `X-RateLimit-*` headers on every response.
+ * Routes the server reports under the same bucket id share one bucket.
+ *
+ * Bucket state lives in a `RateLimitStore`; pass a shared store (e.g.
+ * `FileRateLimitStore`) to coordinate several processes on one token.
+ *
+ * Requests waiting on a saturated bucket are queued and served in
+ * priority-then-FIFO order, so interactive replies overtake background jobs.
  */
 import { RateLimitBucket } from "./RateLimitBucket.js";
 import type { RateLimitConfig } from "./RateLimitConfig.js";
+import { RateLimitMappings } from "./RateLimitMappings.js";
+import { MemoryRateLimitStore, type RateLimitStore } from "./RateLimitStore.js";
 import type { Logger } from "../util/logger.js";
 import { noopLogger } from "../util/logger.js";
+import { FluxorQueueFullError } from "../errors.js";
 
 export interface BucketParams {
   channelId?: string;
@@ -15,14 +28,117 @@ export interface BucketParams {
   inviteCode?: string;
 }
 
+/** Scheduling priority of a request waiting on a saturated bucket. */
+export enum RequestPriority {
+  /** Background work (bulk syncs, cleanup) — served last and shed first. */
+  Low = 0,
+  Normal = 1,
+  /** Interactive work (command replies). */
+  High = 2,
+}
+
+/** Snapshot of a bucket's capacity and queue. */
+export interface BucketInfo {
+  remaining: number;
+  resetMs: number;
+  /** Requests currently waiting for a slot. */
+  queueDepth: number;
+  /** How long the oldest waiter has been queued, in ms. */
+  oldestWaitMs: number;
+  /** Moving average of how long served requests waited, in ms. */
+  averageWaitMs: number;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+interface BucketQueue {
+  waiters: Waiter[];
+  draining: boolean;
+  /** Whether the bucket was full on its last acquire — only then are waiters counted and shed. */
+  saturated: boolean;
+  averageWaitMs: number;
+}
+
+/** A logical route plus the IDs that scope its bucket. */
+export interface RateLimitRoute {
+  config: RateLimitConfig;
+  params: BucketParams;
+}
+
+/** Rate-limit information parsed from response headers. */
+export interface RateLimitHeaders {
+  limit?: number;
+  remaining?: number;
+  /** Milliseconds until the bucket resets. */
+  resetAfterMs?: number;
+  /** Server-side bucket id (`X-RateLimit-Bucket`). */
+  bucket?: string;
+  /** Whether the limit is the account-wide global limit. */
+  global: boolean;
+}
+
+/** Placeholder → param mapping used when building bucket keys. */
+const PLACEHOLDERS: [string, keyof BucketParams][] = [
+  ["::channel_id", "channelId"],
+  ["::guild_id", "guildId"],
+  ["::user_id", "userId"],
+  ["::target_id", "targetId"],
+  ["::webhook_id", "webhookId"],
+  ["::invite_code", "inviteCode"],
+];
+
+/**
+ * Parse `X-RateLimit-*` headers. Returns `null` when the response carries none.
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitHeaders | null {
+  const num = (name: string): number | undefined => {
+    const raw = headers.get(name);
+    if (raw === null) return undefined;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : undefined;
+  };
+
+  const limit = num("x-ratelimit-limit");
+  const remaining = num("x-ratelimit-remaining");
+  const resetAfter = num("x-ratelimit-reset-after");
+  const reset = num("x-ratelimit-reset");
+  const bucket = headers.get("x-ratelimit-bucket") ?? undefined;
+  const global = headers.get("x-ratelimit-global")?.toLowerCase() === "true";
+
+  if (limit === undefined && remaining === undefined && bucket === undefined && !global) return null;
+
+  let resetAfterMs: number | undefined;
+  if (resetAfter !== undefined) resetAfterMs = resetAfter * 1000;
+  else if (reset !== undefined) resetAfterMs = Math.max(0, reset * 1000 - Date.now());
+
+  return { limit, remaining, resetAfterMs, bucket, global };
+}
+
 export class RateLimitManager {
   private readonly _buckets = new Map<string, RateLimitBucket>();
+  /** Bucket template → server-reported bucket id. */
+  private readonly _serverBuckets = new Map<string, string>();
   private readonly _enabled: boolean;
   private readonly _log: Logger;
+  private readonly _store: RateLimitStore;
+  private readonly _queues = new Map<string, BucketQueue>();
+  private readonly _maxQueueSize: number;
 
-  constructor(enabled = true, logger?: Logger) {
+  constructor(enabled = true, logger?: Logger, store?: RateLimitStore, maxQueueSize = Infinity) {
     this._enabled = enabled;
     this._log = logger ?? noopLogger;
+    this._store = store ?? new MemoryRateLimitStore();
+    this._maxQueueSize = maxQueueSize;
+  }
+
+  /** The backend holding bucket state. */
+  get store(): RateLimitStore {
+    return this._store;
   }
 
   /** Whether rate limiting is enabled. */
@@ -45,19 +161,20 @@ export class RateLimitManager {
     if (!this._enabled) return null;
 
     let key = config.bucket;
+    const ids: string[] = [];
+
+    for (const [placeholder, param] of PLACEHOLDERS) {
+      const value = params[param];
+      if (value && key.includes(placeholder)) {
+        key = key.replace(placeholder, `::${value}`);
+        ids.push(value);
+      }
+    }
 
-    if (params.channelId && key.includes("::channel_id"))
-      key = key.replace("::channel_id", `::${params.channelId}`);
-    if (params.guildId && key.includes("::guild_id"))
-      key = key.replace("::guild_id", `::${params.guildId}`);
-    if (params.userId && key.includes("::user_id"))
-      key = key.replace("::user_id", `::${params.userId}`);
-    if (params.targetId && key.includes("::target_id"))
-      key = key.replace("::target_id", `::${params.targetId}`);
-    if (params.webhookId && key.includes("::webhook_id"))
-      key = key.replace("::webhook_id", `::${params.webhookId}`);
-    if (params.inviteCode && key.includes("::invite_code"))
-      key = key.replace("::invite_code", `::${params.inviteCode}`);
+    // Once the server told us which bucket this route belongs to, share it
+    // with every other route reporting the same id (scoped by the same IDs).
+    const serverBucket = this._serverBuckets.get(config.bucket);
+    if (serverBucket) key = ["server", serverBucket, ...ids].join("::");
 
     let bucket = this._buckets.get(key);
     if (!bucket) {
@@ -66,6 +183,7 @@ export class RateLimitManager {
         config.limit,
         config.windowMs,
         config.exemptFromGlobal,
+        this._store,
       );
       this._buckets.set(key, bucket);
     }
@@ -73,44 +191,170 @@ export class RateLimitManager {
   }
 
   /**
-   * Wait until a request can proceed, respecting the given bucket.
+   * The account-wide bucket every non-exempt request passes through.
+   * Returns `null` when rate limiting is disabled.
+   */
+  getGlobalBucket(): RateLimitBucket | null {
+    return this.getBucket(RateLimitMappings.global);
+  }
+
+  /**
+   * Wait until a request can proceed, respecting the given bucket and —
+   * unless the bucket is `exemptFromGlobal` — the global bucket.
+   * Waiters are served by `priority`, then in arrival order.
+   * The global bucket comes first, so a request shed from its queue hasn't
+   * already used up a slot in the (usually much smaller) route bucket.
    * No-op when rate limiting is disabled or bucket is null.
+   *
+   * @throws {FluxorQueueFullError} If the request was shed from a full queue.
    */
-  async waitForRateLimit(bucket: RateLimitBucket | null): Promise<void> {
+  async waitForRateLimit(
+    bucket: RateLimitBucket | null,
+    priority: RequestPriority = RequestPriority.Normal,
+  ): Promise<void> {
     if (!this._enabled || !bucket) return;
 
-    let waitMs = await bucket.acquire();
-    if (waitMs > 0) {
-      this._log.warn(
-        `Rate limit hit for bucket ${bucket.bucketKey}. Waiting ${waitMs}ms before retry.`,
-      );
-      await sleep(waitMs);
+    const global = this.getGlobalBucket();
+    if (global && global !== bucket && !bucket.exemptFromGlobal) {
+      await this._enqueue(global, priority);
+    }
+    await this._enqueue(bucket, priority);
+  }
+
+  /** Queue for a slot in a single bucket. */
+  private _enqueue(bucket: RateLimitBucket, priority: RequestPriority): Promise<void> {
+    const queue = this._queue(bucket.bucketKey);
 
-      // Retry once more after the wait.
-      waitMs = await bucket.acquire();
-      if (waitMs > 0) {
-        this._log.warn(
-          `Rate limit still active for bucket ${bucket.bucketKey}. Waiting additional ${waitMs}ms.`,
+    // Until the bucket reports a wait, queued requests are just passing
+    // through the drain loop, so only a saturated queue is bounded.
+    if (queue.saturated && queue.waiters.length >= this._maxQueueSize) {
+      // Shed the newest lowest-priority waiter — or this request, if nothing
+      // queued is less important than it.
+      const last = queue.waiters[queue.waiters.length - 1];
+      if (!last || last.priority >= priority) {
+        return Promise.reject(
+          new FluxorQueueFullError(`Rate-limit queue for ${bucket.bucketKey} is full.`, bucket.bucketKey, priority),
         );
-        await sleep(waitMs);
       }
+      queue.waiters.pop();
+      this._shed(bucket, last);
     }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { priority, enqueuedAt: Date.now(), resolve, reject };
+      const index = queue.waiters.findIndex((w) => w.priority < priority);
+      if (index === -1) queue.waiters.push(waiter);
+      else queue.waiters.splice(index, 0, waiter);
+
+      if (!queue.draining) void this._drain(bucket, queue);
+    });
+  }
+
+  /** Hand out slots to queued waiters, front first, sleeping while the bucket is full. */
+  private async _drain(bucket: RateLimitBucket, queue: BucketQueue): Promise<void> {
+    queue.draining = true;
+    try {
+      while (queue.waiters.length > 0) {
+        const waitMs = await bucket.acquire();
+        queue.saturated = waitMs > 0;
+        if (waitMs > 0) {
+          // Now that requests really wait, shed the overflow that arrived
+          // while the bucket still had room.
+          while (queue.waiters.length > this._maxQueueSize) this._shed(bucket, queue.waiters.pop()!);
+          this._log.warn(
+            `Rate limit hit for bucket ${bucket.bucketKey}. ` +
+              `Waiting ${waitMs}ms (${queue.waiters.length} queued).`,
+          );
+          await sleep(waitMs);
+          continue;
+        }
+
+        const waiter = queue.waiters.shift()!;
+        const waited = Date.now() - waiter.enqueuedAt;
+        queue.averageWaitMs = queue.averageWaitMs * 0.8 + waited * 0.2;
+        waiter.resolve();
+      }
+    } catch (err) {
+      for (const waiter of queue.waiters.splice(0)) waiter.reject(err);
+    } finally {
+      queue.draining = false;
+      queue.saturated = false;
+    }
+  }
+
+  /** Reject a waiter removed from a full queue. */
+  private _shed(bucket: RateLimitBucket, waiter: Waiter): void {
+    this._log.warn(`Shedding priority ${waiter.priority} request from full queue ${bucket.bucketKey}.`);
+    waiter.reject(
+      new FluxorQueueFullError(`Shed from rate-limit queue ${bucket.bucketKey}.`, bucket.bucketKey, waiter.priority),
+    );
   }
 
-  /** Get remaining capacity and reset time for a bucket. */
-  async getBucketInfo(bucket: RateLimitBucket | null): Promise<{ remaining: number; resetMs: number }> {
-    if (!this._enabled || !bucket) return { remaining: Infinity, resetMs: 0 };
+  private _queue(key: string): BucketQueue {
+    let queue = this._queues.get(key);
+    if (!queue) {
+      queue = { waiters: [], draining: false, saturated: false, averageWaitMs: 0 };
+      this._queues.set(key, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Update bucket state from a response's rate-limit headers.
+   * Pass `null` for an unmapped route: a global limit still applies, while
+   * route-bucket headers are ignored.
+   * No-op when rate limiting is disabled or the response has no such headers.
+   */
+  async updateFromHeaders(route: RateLimitRoute | null, headers: Headers): Promise<void> {
+    if (!this._enabled) return;
+    const info = parseRateLimitHeaders(headers);
+    if (!info) return;
+
+    if (info.global) {
+      // Drain the global bucket until the server's reset so every
+      // non-exempt request (in every process sharing the store) pauses.
+      const resetAfterMs = info.resetAfterMs ?? 1000;
+      const global = this.getGlobalBucket();
+      await global?.applyServerState(info.limit ?? global.limit, 0, resetAfterMs);
+      this._log.warn(`Global rate limit reported by server — pausing requests for ${resetAfterMs}ms.`);
+      return;
+    }
+
+    if (!route) return;
+    const template = route.config.bucket;
+    if (info.bucket && this._serverBuckets.get(template) !== info.bucket) {
+      this._serverBuckets.set(template, info.bucket);
+      this._log.debug(`Route bucket ${template} mapped to server bucket ${info.bucket}.`);
+    }
+
+    if (info.limit === undefined || info.remaining === undefined || info.resetAfterMs === undefined) return;
+    const bucket = this.getBucket(route.config, route.params);
+    await bucket?.applyServerState(info.limit, info.remaining, info.resetAfterMs);
+  }
+
+  /** Get remaining capacity, reset time and queue statistics for a bucket. */
+  async getBucketInfo(bucket: RateLimitBucket | null): Promise<BucketInfo> {
+    if (!this._enabled || !bucket) {
+      return { remaining: Infinity, resetMs: 0, queueDepth: 0, oldestWaitMs: 0, averageWaitMs: 0 };
+    }
     const remaining = await bucket.getRemaining();
     const resetMs = await bucket.getResetTime();
-    return { remaining, resetMs };
+    const queue = this._queues.get(bucket.bucketKey);
+    const oldest = queue?.waiters.reduce((min, w) => Math.min(min, w.enqueuedAt), Infinity) ?? Infinity;
+    return {
+      remaining,
+      resetMs,
+      queueDepth: queue?.waiters.length ?? 0,
+      oldestWaitMs: oldest === Infinity ? 0 : Date.now() - oldest,
+      averageWaitMs: Math.round(queue?.averageWaitMs ?? 0),
+    };
   }
 
   /** Reset all buckets. */
   async clearAll(): Promise<void> {
-    for (const bucket of this._buckets.values()) {
-      await bucket.reset();
-    }
+    await this._store.clear();
     this._buckets.clear();
+    this._serverBuckets.clear();
   }
 }
 
@@ -27,6 +27,9 @@ export const RateLimitMappings: Record<string, RateLimitConfig> = {
   "auth.forgot": cfg("auth::forgot", 5, 60_000),
   "auth.reset": cfg("auth::reset", 5, 60_000),
   "auth.sessions": cfg("auth::sessions", 5, 5_000),
+  "auth.authorizeIp": cfg("auth::authorize_ip", 5, 60_000),
+  "auth.webauthn": cfg("auth::webauthn", 5, 60_000),
+  "auth.redeemBetaCode": cfg("auth::redeem_beta_code", 5, 60_000),
 
   // ── Channels ───────────────────────────────────────────────────────────
   "channels.get": cfg("channels::channel_id::get", 10, 10_000),
@@ -40,6 +43,9 @@ export const RateLimitMappings: Record<string, RateLimitConfig> = {
   "channels.messages.bulkDelete": cfg("channels::channel_id::messages::bulk_delete", 1, 5_000),
   "channels.typing": cfg("channels::channel_id::typing", 5, 5_000),
   "channels.messages.ack": cfg("channels::channel_id::messages::ack", 5, 5_000),
+  "channels.messages.ackClear": cfg("channels::channel_id::messages::ack::clear", 5, 5_000),
+  "channels.messages.attachments.delete": cfg("channels::channel_id::messages::attachments::delete", 5, 10_000),
+  "channels.messages.memes": cfg("channels::channel_id::messages::memes", 5, 10_000),
   "channels.pins.list": cfg("channels::channel_id::pins", 5, 10_000),
   "channels.pins.add": cfg("channels::channel_id::pins::add", 5, 10_000),
   "channels.pins.remove": cfg("channels::channel_id::pins::remove", 5, 10_000),
@@ -126,6 +132,16 @@ export const RateLimitMappings: Record<string, RateLimitConfig> = {
   "users.memes.get": cfg("users::me::memes::get", 5, 5_000),
   "users.memes.update": cfg("users::me::memes::update", 5, 10_000),
   "users.memes.delete": cfg("users::me::memes::delete", 5, 10_000),
+  "users.mfa": cfg("users::me::mfa", 5, 60_000),
+  "users.mfa.webauthn": cfg("users::me::mfa::webauthn", 5, 10_000),
+  "users.relationships.list": cfg("users::me::relationships", 5, 10_000),
+  "users.relationships.add": cfg("users::me::relationships::add", 5, 10_000),
+  "users.relationships.remove": cfg("users::me::relationships::remove", 5, 10_000),
+  "users.channels.list": cfg("users::me::channels", 5, 10_000),
+  "users.channels.create": cfg("users::me::channels::create", 5, 10_000),
+  "users.savedMessages.list": cfg("users::me::saved_messages", 5, 10_000),
+  "users.savedMessages.create": cfg("users::me::saved_messages::create", 5, 10_000),
+  "users.savedMessages.delete": cfg("users::me::saved_messages::delete", 5, 10_000),
 
   // ── Invites ────────────────────────────────────────────────────────────
   "invites.get": cfg("invites::invite_code", 5, 5_000),
@@ -155,4 +171,8 @@ export const RateLimitMappings: Record<string, RateLimitConfig> = {
   "tenor.trending": cfg("tenor::trending", 10, 5_000),
   "tenor.registerShare": cfg("tenor::register_share", 5, 5_000),
   "tenor.suggest": cfg("tenor::suggest", 10, 5_000),
+
+  // ── Gift Codes ─────────────────────────────────────────────────────────
+  "giftCodes.get": cfg("gift_codes::get", 5, 10_000),
+  "giftCodes.redeem": cfg("gift_codes::redeem", 3, 60_000),
 };
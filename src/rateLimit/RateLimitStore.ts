@@ -0,0 +1,201 @@
+/**
+ * Storage backend for rate-limit bucket state.
+ *
+ * `RateLimitBucket` delegates every read and mutation to a `RateLimitStore`,
+ * so several processes running on the same token can share one budget by
+ * sharing a store. Each operation must be atomic per bucket key — a Redis
+ * adapter would use a Lua script, the bundled `FileRateLimitStore` uses a
+ * lock file.
+ *
+ * The state transitions themselves (`BucketState` + `acquireSlot` & co.) are
+ * exported so adapters can reuse them inside their own critical section.
+ */
+
+/** Static limits of a bucket, passed with every store call. */
+export interface BucketLimits {
+  /** Maximum requests per window (from `RateLimitMappings`). */
+  limit: number;
+  /** Window duration in ms (from `RateLimitMappings`). */
+  windowMs: number;
+}
+
+/** Rate-limit state reported by the server for a bucket. */
+export interface ServerBucketState {
+  limit: number;
+  remaining: number;
+  /** Epoch ms when `remaining` resets to `limit`. */
+  resetAt: number;
+}
+
+/** Serializable per-bucket state kept by a store. */
+export interface BucketState {
+  /** Epoch-ms timestamps of requests inside the current sliding window. */
+  timestamps: number[];
+  /** Server-reported state — replaces the sliding window once present. */
+  server: ServerBucketState | null;
+  /** Window length learned from the server, if any. */
+  windowMs?: number;
+}
+
+/** Pluggable rate-limit state backend. */
+export interface RateLimitStore {
+  /**
+   * Atomically try to take a slot.
+   * @returns `0` if acquired, otherwise the ms to wait before retrying.
+   */
+  acquire(key: string, limits: BucketLimits): Promise<number>;
+  /** Requests left in the current window. */
+  getRemaining(key: string, limits: BucketLimits): Promise<number>;
+  /** Milliseconds until the window frees up a slot (`0` if nothing is tracked). */
+  getResetTime(key: string, limits: BucketLimits): Promise<number>;
+  /** Replace the bucket's state with what the server reported. */
+  applyServerState(key: string, limit: number, remaining: number, resetAfterMs: number): Promise<void>;
+  /** Forget one bucket. */
+  reset(key: string): Promise<void>;
+  /** Forget every bucket. */
+  clear(): Promise<void>;
+}
+
+// ── State transitions ───────────────────────────────────────────────────────
+
+export function createBucketState(): BucketState {
+  return { timestamps: [], server: null };
+}
+
+function windowOf(state: BucketState, limits: BucketLimits): number {
+  return state.windowMs ?? limits.windowMs;
+}
+
+function prune(state: BucketState, limits: BucketLimits, now: number): void {
+  const cutoff = now - windowOf(state, limits);
+  while (state.timestamps.length > 0 && state.timestamps[0]! < cutoff) {
+    state.timestamps.shift();
+  }
+}
+
+/** Roll the server window over once its reset time has passed. */
+function refreshServer(state: BucketState, limits: BucketLimits, now: number): ServerBucketState | null {
+  const server = state.server;
+  if (server && now >= server.resetAt) {
+    server.remaining = server.limit;
+    server.resetAt = now + windowOf(state, limits);
+  }
+  return server;
+}
+
+/** Take a slot if one is free. Returns `0` on success, else ms to wait. */
+export function acquireSlot(state: BucketState, limits: BucketLimits, now = Date.now()): number {
+  const server = refreshServer(state, limits, now);
+  if (server) {
+    if (server.remaining > 0) {
+      server.remaining--;
+      return 0;
+    }
+    return Math.max(0, server.resetAt - now);
+  }
+
+  prune(state, limits, now);
+  if (state.timestamps.length < limits.limit) {
+    state.timestamps.push(now);
+    return 0;
+  }
+  // Window full — wait until the oldest entry expires.
+  return Math.max(0, state.timestamps[0]! + windowOf(state, limits) - now);
+}
+
+export function remainingSlots(state: BucketState, limits: BucketLimits, now = Date.now()): number {
+  const server = refreshServer(state, limits, now);
+  if (server) return server.remaining;
+  prune(state, limits, now);
+  return limits.limit - state.timestamps.length;
+}
+
+export function resetTime(state: BucketState, limits: BucketLimits, now = Date.now()): number {
+  const server = refreshServer(state, limits, now);
+  if (server) return server.remaining < server.limit ? Math.max(0, server.resetAt - now) : 0;
+  prune(state, limits, now);
+  if (state.timestamps.length === 0) return 0;
+  return Math.max(0, state.timestamps[0]! + windowOf(state, limits) - now);
+}
+
+export function applyServer(
+  state: BucketState,
+  limit: number,
+  remaining: number,
+  resetAfterMs: number,
+  now = Date.now(),
+): void {
+  // A fresh window (one request consumed) tells us the real window length.
+  if (remaining === limit - 1 && resetAfterMs > 0) state.windowMs = resetAfterMs;
+  state.server = { limit, remaining, resetAt: now + resetAfterMs };
+}
+
+// ── In-memory store ─────────────────────────────────────────────────────────
+
+/**
+ * Default store — keeps state in a `Map` inside this process.
+ * Operations are synchronous under the hood, so they are trivially atomic.
+ *
+ * A bucket without server-reported state is forgotten once its window has
+ * passed, so short-lived keys (like per-user command cooldowns) don't pile up.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly _states = new Map<string, BucketState>();
+  private readonly _expiry = new Map<string, ReturnType<typeof setTimeout>>();
+
+  async acquire(key: string, limits: BucketLimits): Promise<number> {
+    const state = this._state(key);
+    const wait = acquireSlot(state, limits);
+    this._scheduleExpiry(key, state, limits);
+    return wait;
+  }
+
+  async getRemaining(key: string, limits: BucketLimits): Promise<number> {
+    return remainingSlots(this._state(key), limits);
+  }
+
+  async getResetTime(key: string, limits: BucketLimits): Promise<number> {
+    return resetTime(this._state(key), limits);
+  }
+
+  async applyServerState(key: string, limit: number, remaining: number, resetAfterMs: number): Promise<void> {
+    applyServer(this._state(key), limit, remaining, resetAfterMs);
+  }
+
+  async reset(key: string): Promise<void> {
+    clearTimeout(this._expiry.get(key));
+    this._expiry.delete(key);
+    this._states.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    for (const timer of this._expiry.values()) clearTimeout(timer);
+    this._expiry.clear();
+    this._states.clear();
+  }
+
+  /** Drop the bucket once its newest request has left the window. */
+  private _scheduleExpiry(key: string, state: BucketState, limits: BucketLimits): void {
+    clearTimeout(this._expiry.get(key));
+    this._expiry.delete(key);
+    const newest = state.timestamps[state.timestamps.length - 1];
+    if (state.server || newest === undefined) return;
+
+    const timer = setTimeout(() => {
+      this._expiry.delete(key);
+      // Server-reported state carries a learned window length — keep it.
+      if (!state.server && this._states.get(key) === state) this._states.delete(key);
+    }, newest + windowOf(state, limits) - Date.now());
+    timer.unref();
+    this._expiry.set(key, timer);
+  }
+
+  private _state(key: string): BucketState {
+    let state = this._states.get(key);
+    if (!state) {
+      state = createBucketState();
+      this._states.set(key, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,68 @@
+import type {
+  Channel as RawChannel,
+  CreateMessagePayload,
+  GetMessagesOptions,
+  UpdateChannelPayload,
+} from "../types/models.js";
+import type { FetchOptions } from "../cache/EntityCache.js";
+import { Structure } from "./Structure.js";
+import { Message } from "./Message.js";
+import { Guild } from "./Guild.js";
+
+export interface Channel extends RawChannel {}
+
+export class Channel extends Structure<RawChannel> {
+  /** The guild, if this is a guild channel and the guild is cached. */
+  get guild(): Guild | undefined {
+    const guild = this.guild_id ? this.client.guilds.get(this.guild_id) : undefined;
+    return guild && new Guild(this.client, guild);
+  }
+
+  async send(message: string | CreateMessagePayload): Promise<Message> {
+    return new Message(this.client, await this.client.api.sendMessage(this.id, message));
+  }
+
+  /** A message by ID, from the cache or the API. */
+  async fetchMessage(messageId: string, options?: FetchOptions): Promise<Message> {
+    return new Message(this.client, await this.client.messages.fetch(this.id, messageId, options));
+  }
+
+  /** A page of messages, newest first. */
+  async fetchMessages(options?: GetMessagesOptions): Promise<Message[]> {
+    const messages = await this.client.api.getMessages(this.id, options);
+    return messages.map((message) => new Message(this.client, message));
+  }
+
+  /**
+   * Delete messages — the given ones, or the latest `count`.
+   *
+   * @returns The IDs of the deleted messages.
+   */
+  async bulkDelete(messages: number | readonly (string | { id: string })[]): Promise<string[]> {
+    const ids =
+      typeof messages === "number"
+        ? (await this.client.api.getMessages(this.id, { limit: messages })).map((message) => message.id)
+        : messages.map((message) => (typeof message === "string" ? message : message.id));
+    if (ids.length === 1) await this.client.api.deleteMessage(this.id, ids[0]!);
+    else if (ids.length > 1) await this.client.api.bulkDeleteMessages(this.id, { messages: ids });
+    return ids;
+  }
+
+  /** Show the typing indicator for a few seconds. */
+  async sendTyping(): Promise<void> {
+    await this.client.api.triggerTypingIndicator(this.id);
+  }
+
+  async edit(data: UpdateChannelPayload): Promise<Channel> {
+    return new Channel(this.client, await this.client.api.updateChannel(this.id, data));
+  }
+
+  async delete(): Promise<void> {
+    await this.client.api.deleteChannel(this.id);
+  }
+
+  /** The mention, `<#id>`. */
+  override toString(): string {
+    return `<#${this.id}>`;
+  }
+}
@@ -0,0 +1,63 @@
+import type {
+  AuditLogSearchPayload,
+  BanMemberPayload,
+  Guild as RawGuild,
+  GuildAuditLog,
+  UpdateGuildPayload,
+} from "../types/models.js";
+import type { FetchOptions } from "../cache/EntityCache.js";
+import { Structure } from "./Structure.js";
+import { GuildMember } from "./GuildMember.js";
+import { Role } from "./Role.js";
+
+export interface Guild extends RawGuild {}
+
+export class Guild extends Structure<RawGuild> {
+  /** A member, if cached. */
+  member(userId: string): GuildMember | undefined {
+    const member = this.client.members.get(this.id)?.get(userId);
+    return member && new GuildMember(this.client, { ...member, guild_id: this.id });
+  }
+
+  /** A member, from the cache or the API. */
+  async fetchMember(userId: string, options?: FetchOptions): Promise<GuildMember> {
+    const member = await this.client.members.fetch(this.id, userId, options);
+    return new GuildMember(this.client, { ...member, guild_id: this.id });
+  }
+
+  /** A role, if cached. */
+  role(roleId: string): Role | undefined {
+    const role = this.client.roles.get(this.id)?.get(roleId);
+    return role && new Role(this.client, { ...role, guild_id: this.id });
+  }
+
+  /** Audit log entries, newest first. */
+  async fetchAuditLog(options: AuditLogSearchPayload = {}): Promise<GuildAuditLog[]> {
+    return this.client.api.searchAuditLog(this.id, options);
+  }
+
+  async ban(userId: string, options: BanMemberPayload = {}): Promise<void> {
+    await this.client.api.banMember(this.id, userId, options);
+  }
+
+  async unban(userId: string): Promise<void> {
+    await this.client.api.unbanMember(this.id, userId);
+  }
+
+  async kick(userId: string): Promise<void> {
+    await this.client.api.kickMember(this.id, userId);
+  }
+
+  async edit(data: UpdateGuildPayload): Promise<Guild> {
+    return new Guild(this.client, await this.client.api.updateGuild(this.id, data));
+  }
+
+  async leave(): Promise<void> {
+    await this.client.api.leaveGuild(this.id);
+  }
+
+  /** The guild name. */
+  override toString(): string {
+    return this.name;
+  }
+}
@@ -0,0 +1,66 @@
+import type {
+  BanMemberPayload,
+  GuildMember as RawGuildMember,
+  UpdateMemberPayload,
+} from "../types/models.js";
+import type { Client } from "../client/Client.js";
+import { Structure } from "./Structure.js";
+import { User } from "./User.js";
+import { Guild } from "./Guild.js";
+
+/** A raw member with the ID of its guild, which the API leaves out. */
+export type GuildMemberData = RawGuildMember & { guild_id: string };
+
+export interface GuildMember extends Omit<GuildMemberData, "user"> {}
+
+export class GuildMember extends Structure<GuildMemberData> {
+  /** The user. Missing only on partial member objects. */
+  public readonly user: User | undefined;
+
+  constructor(client: Client<boolean>, data: GuildMemberData) {
+    super(client, data);
+    this.user = data.user && new User(client, data.user);
+  }
+
+  /** The user ID. */
+  get id(): string {
+    return this.user?.id ?? "";
+  }
+
+  /** Nickname, falling back to the username. */
+  get displayName(): string {
+    return this.nickname ?? this.user?.username ?? "";
+  }
+
+  /** The guild, if cached. */
+  get guild(): Guild | undefined {
+    const guild = this.client.guilds.get(this.guild_id);
+    return guild && new Guild(this.client, guild);
+  }
+
+  async ban(options: BanMemberPayload = {}): Promise<void> {
+    await this.client.api.banMember(this.guild_id, this.id, options);
+  }
+
+  async kick(): Promise<void> {
+    await this.client.api.kickMember(this.guild_id, this.id);
+  }
+
+  async edit(data: UpdateMemberPayload): Promise<GuildMember> {
+    const member = await this.client.api.updateMember(this.guild_id, this.id, data);
+    return new GuildMember(this.client, { ...member, guild_id: this.guild_id });
+  }
+
+  async addRole(roleId: string): Promise<void> {
+    await this.client.api.addMemberRole(this.guild_id, this.id, roleId);
+  }
+
+  async removeRole(roleId: string): Promise<void> {
+    await this.client.api.removeMemberRole(this.guild_id, this.id, roleId);
+  }
+
+  /** The mention, `<@id>`. */
+  override toString(): string {
+    return `<@${this.id}>`;
+  }
+}
@@ -0,0 +1,86 @@
+import type {
+  CreateMessagePayload,
+  EditMessagePayload,
+  GuildMember as RawGuildMember,
+  Message as RawMessage,
+} from "../types/models.js";
+import type { Client } from "../client/Client.js";
+import { RequestPriority } from "../rateLimit/RateLimitManager.js";
+import { Structure } from "./Structure.js";
+import { User } from "./User.js";
+import { Channel } from "./Channel.js";
+import { Guild } from "./Guild.js";
+import { GuildMember } from "./GuildMember.js";
+
+export interface Message extends Omit<RawMessage, "author"> {}
+
+export class Message extends Structure<RawMessage> {
+  /** The author. Missing on partial `MESSAGE_UPDATE`s. */
+  public readonly author: User;
+
+  constructor(client: Client<boolean>, data: RawMessage) {
+    super(client, data);
+    this.author = data.author && new User(client, data.author);
+  }
+
+  /** The channel, if cached. */
+  get channel(): Channel | undefined {
+    const channel = this.client.channels.get(this.channel_id);
+    return channel && new Channel(this.client, channel);
+  }
+
+  /** The guild, if this is a guild message and the guild is cached. */
+  get guild(): Guild | undefined {
+    const guild = this.guild_id ? this.client.guilds.get(this.guild_id) : undefined;
+    return guild && new Guild(this.client, guild);
+  }
+
+  /** The author's guild member — from the message payload if it has one, else the cache. */
+  get member(): GuildMember | undefined {
+    if (!this.guild_id || !this.author) return undefined;
+    const member =
+      (this.shadowed.member as RawGuildMember | undefined) ??
+      this.client.members.get(this.guild_id)?.get(this.author.id);
+    // Payload members leave out the user — it's the author.
+    return member && new GuildMember(this.client, { user: this.author.toJSON(), ...member, guild_id: this.guild_id });
+  }
+
+  /**
+   * Reply to this message — sent to the same channel with a reference to it,
+   * at `RequestPriority.High`.
+   */
+  async reply(message: string | CreateMessagePayload): Promise<Message> {
+    const payload: CreateMessagePayload = typeof message === "string" ? { content: message } : message;
+    const reply = await this.client.api.withPriority(RequestPriority.High).sendMessage(this.channel_id, {
+      ...payload,
+      message_reference: { message_id: this.id, channel_id: this.channel_id, guild_id: this.guild_id },
+    });
+    return new Message(this.client, reply);
+  }
+
+  /** Add a reaction — a unicode emoji or `name:id` for a custom one. */
+  async react(emoji: string): Promise<void> {
+    await this.client.api.addReaction(this.channel_id, this.id, emoji);
+  }
+
+  async edit(message: EditMessagePayload): Promise<Message> {
+    return new Message(this.client, await this.client.api.editMessage(this.channel_id, this.id, message));
+  }
+
+  async delete(): Promise<void> {
+    await this.client.api.deleteMessage(this.channel_id, this.id);
+  }
+
+  async pin(): Promise<void> {
+    await this.client.api.pinMessage(this.channel_id, this.id);
+  }
+
+  async unpin(): Promise<void> {
+    await this.client.api.unpinMessage(this.channel_id, this.id);
+  }
+
+  /** The content. */
+  override toString(): string {
+    return this.content ?? "";
+  }
+}
@@ -0,0 +1,30 @@
+import type { GuildRole, UpdateRolePayload } from "../types/models.js";
+import { Structure } from "./Structure.js";
+import { Guild } from "./Guild.js";
+
+/** A raw role with the ID of its guild, which the API leaves out. */
+export type RoleData = GuildRole & { guild_id: string };
+
+export interface Role extends RoleData {}
+
+export class Role extends Structure<RoleData> {
+  /** The guild, if cached. */
+  get guild(): Guild | undefined {
+    const guild = this.client.guilds.get(this.guild_id);
+    return guild && new Guild(this.client, guild);
+  }
+
+  async edit(data: UpdateRolePayload): Promise<Role> {
+    const role = await this.client.api.updateRole(this.guild_id, this.id, data);
+    return new Role(this.client, { ...role, guild_id: this.guild_id });
+  }
+
+  async delete(): Promise<void> {
+    await this.client.api.deleteRole(this.guild_id, this.id);
+  }
+
+  /** The mention, `<@&id>`. */
+  override toString(): string {
+    return `<@&${this.id}>`;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Base of the structure classes: the raw API object's fields, plus the
+ * client it came from so methods like `message.reply()` can make requests.
+ */
+
+import type { Client } from "../client/Client.js";
+
+export abstract class Structure<T extends object> {
+  /** The client this structure belongs to. Not enumerable — it stays out of `toJSON()` and the caches. */
+  declare readonly client: Client<boolean>;
+
+  /**
+   * Raw fields named like one of the class's getters — e.g. a message
+   * payload's `member` — which can't be assigned over the getter.
+   */
+  declare protected readonly shadowed: Record<string, unknown>;
+
+  constructor(client: Client<boolean>, data: T) {
+    Object.defineProperty(this, "client", { value: client });
+    Object.defineProperty(this, "shadowed", { value: {} });
+    for (const [key, value] of Object.entries(data)) {
+      if (isAccessor(this, key)) this.shadowed[key] = value;
+      else Object.defineProperty(this, key, { value, writable: true, enumerable: true, configurable: true });
+    }
+  }
+
+  /** The raw object, as the API sends it. */
+  toJSON(): T {
+    const data: Record<string, unknown> = { ...this.shadowed };
+    for (const [key, value] of Object.entries(this)) {
+      data[key] = value instanceof Structure ? value.toJSON() : value;
+    }
+    return data as T;
+  }
+}
+
+/** Whether `key` is a getter or setter somewhere on `target`'s class chain. */
+function isAccessor(target: object, key: string): boolean {
+  let proto: object | null = Object.getPrototypeOf(target);
+  while (proto && proto !== Object.prototype) {
+    const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+    if (descriptor) return descriptor.get !== undefined || descriptor.set !== undefined;
+    proto = Object.getPrototypeOf(proto);
+  }
+  return false;
+}
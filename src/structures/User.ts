@@ -0,0 +1,29 @@
+import type { CreateMessagePayload, User as RawUser } from "../types/models.js";
+import type { FetchOptions } from "../cache/EntityCache.js";
+import { Structure } from "./Structure.js";
+import { Channel } from "./Channel.js";
+import type { Message } from "./Message.js";
+
+export interface User extends RawUser {}
+
+export class User extends Structure<RawUser> {
+  /** Open (or reuse) the DM channel with this user. */
+  async createDM(): Promise<Channel> {
+    return new Channel(this.client, await this.client.api.createDm({ recipient_id: this.id }));
+  }
+
+  /** Send this user a direct message. */
+  async send(message: string | CreateMessagePayload): Promise<Message> {
+    return (await this.createDM()).send(message);
+  }
+
+  /** Request this user again. */
+  async fetch(options?: FetchOptions): Promise<User> {
+    return new User(this.client, await this.client.users.fetch(this.id, { force: true, ...options }));
+  }
+
+  /** The mention, `<@id>`. */
+  override toString(): string {
+    return `<@${this.id}>`;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Gateway events a `Client` with `structures: true` emits as structure
+ * classes, and the conversion for each.
+ */
+
+import type { Client } from "../client/Client.js";
+import type { GatewayEvents, GuildMemberEventData } from "../types/gateway.js";
+import type { GuildMember as RawGuildMember, Message as RawMessage } from "../types/models.js";
+import { Channel } from "./Channel.js";
+import { Guild } from "./Guild.js";
+import { GuildMember } from "./GuildMember.js";
+import { Message } from "./Message.js";
+import { Role } from "./Role.js";
+import { User } from "./User.js";
+
+/** `GUILD_ROLE_CREATE` / `GUILD_ROLE_UPDATE` with a `Role`. */
+export interface RoleEventData {
+  guild_id: string;
+  role: Role;
+}
+
+/** Payloads of the events that carry structures. */
+export interface StructureEvents {
+  MESSAGE_CREATE: Message;
+  MESSAGE_UPDATE: Message;
+  CHANNEL_CREATE: Channel;
+  CHANNEL_UPDATE: Channel;
+  CHANNEL_DELETE: Channel;
+  GUILD_CREATE: Guild;
+  GUILD_UPDATE: Guild;
+  GUILD_MEMBER_ADD: GuildMember;
+  GUILD_MEMBER_UPDATE: GuildMember;
+  GUILD_ROLE_CREATE: RoleEventData;
+  GUILD_ROLE_UPDATE: RoleEventData;
+  USER_UPDATE: User;
+}
+
+type Converters = {
+  [K in keyof StructureEvents]: (client: Client<boolean>, data: GatewayEvents[K]) => StructureEvents[K];
+};
+
+const member = (client: Client<boolean>, data: GuildMemberEventData) =>
+  new GuildMember(client, data as unknown as RawGuildMember & { guild_id: string });
+const message = (client: Client<boolean>, data: GatewayEvents["MESSAGE_CREATE"]) =>
+  new Message(client, data as unknown as RawMessage);
+const role = (client: Client<boolean>, data: GatewayEvents["GUILD_ROLE_CREATE"]) => ({
+  guild_id: data.guild_id,
+  role: new Role(client, { ...data.role, guild_id: data.guild_id }),
+});
+
+const CONVERTERS: Converters = {
+  MESSAGE_CREATE: message,
+  MESSAGE_UPDATE: message,
+  CHANNEL_CREATE: (client, data) => new Channel(client, data),
+  CHANNEL_UPDATE: (client, data) => new Channel(client, data),
+  CHANNEL_DELETE: (client, data) => new Channel(client, data),
+  GUILD_CREATE: (client, data) => new Guild(client, data),
+  GUILD_UPDATE: (client, data) => new Guild(client, data),
+  GUILD_MEMBER_ADD: member,
+  GUILD_MEMBER_UPDATE: member,
+  GUILD_ROLE_CREATE: role,
+  GUILD_ROLE_UPDATE: role,
+  USER_UPDATE: (client, data) => new User(client, data),
+};
+
+/** `data` as a structure if `event` carries one, otherwise unchanged. */
+export function toStructure(client: Client<boolean>, event: string, data: unknown): unknown {
+  const convert = CONVERTERS[event as keyof StructureEvents] as
+    | ((client: Client<boolean>, data: unknown) => unknown)
+    | undefined;
+  return convert ? convert(client, data) : data;
+}
+
+/** Whether `event` carries a structure. */
+export function hasStructure(event: string): event is keyof StructureEvents {
+  return event in CONVERTERS;
+}
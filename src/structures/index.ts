@@ -0,0 +1,8 @@
+export { Structure } from "./Structure.js";
+export { User } from "./User.js";
+export { Channel } from "./Channel.js";
+export { Message } from "./Message.js";
+export { Guild } from "./Guild.js";
+export { GuildMember, type GuildMemberData } from "./GuildMember.js";
+export { Role, type RoleData } from "./Role.js";
+export { toStructure, hasStructure, type StructureEvents, type RoleEventData } from "./events.js";
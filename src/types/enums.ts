@@ -258,6 +258,7 @@ export enum CommandError {
   UnknownCommand = "UNKNOWN_COMMAND",
   BadArgCount = "BAD_ARG_COUNT",
   UnmetPrecondition = "UNMET_PRECONDITION",
+  OnCooldown = "ON_COOLDOWN",
   Exception = "EXCEPTION",
   Unsuccessful = "UNSUCCESSFUL",
 }
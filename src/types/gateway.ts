@@ -34,6 +34,8 @@ export interface ReadyEventData {
   user: User;
   guilds: Guild[];
   session_id: string;
+  /** Gateway URL to use when resuming this session. */
+  resume_gateway_url?: string;
   private_channels?: Channel[];
   relationships?: Relationship[];
   read_state?: ReadState[];
@@ -155,6 +157,22 @@ export interface GuildMemberEventData {
   [key: string]: unknown;
 }
 
+export interface GuildMembersChunkEventData {
+  guild_id: string;
+  members: GuildMember[];
+  /** Zero-based index of this chunk. */
+  chunk_index: number;
+  /** Total chunks for the request. */
+  chunk_count: number;
+  /** Requested user IDs that are not members of the guild. */
+  not_found?: string[];
+  /** Presences of the returned members, if requested. */
+  presences?: PresenceEventData[];
+  /** Nonce sent with the request. */
+  nonce?: string;
+  [key: string]: unknown;
+}
+
 export interface GuildBanEventData {
   guild_id: string;
   user: User;
@@ -330,6 +348,7 @@ export interface GatewayEvents {
   GUILD_MEMBER_ADD: GuildMemberEventData;
   GUILD_MEMBER_UPDATE: GuildMemberEventData;
   GUILD_MEMBER_REMOVE: EntityRemovedEventData;
+  GUILD_MEMBERS_CHUNK: GuildMembersChunkEventData;
   GUILD_BAN_ADD: GuildBanEventData;
   GUILD_BAN_REMOVE: GuildBanEventData;
   GUILD_ROLE_CREATE: GuildRoleEventData;
@@ -464,6 +464,43 @@ export interface SavedMessage {
 //  Mutation Payloads (for API create / update endpoints)
 // ═════════════════════════════════════════════════════════════════════════════
 
+/**
+ * A file to upload alongside a message or webhook execution.
+ *
+ * `data` may be a `Buffer` / `Uint8Array`, a `Blob`, a readable stream, or a
+ * string path to a file on disk (read when the request is sent).
+ */
+export interface FileAttachment {
+  /** Filename shown to users, including the extension. */
+  name: string;
+  data: Buffer | Uint8Array | Blob | NodeJS.ReadableStream | string;
+  /** Alt text / description for the attachment. */
+  description?: string;
+  /** Mark the attachment as a spoiler (`MessageAttachmentFlags.IsSpoiler`). */
+  spoiler?: boolean;
+  /** MIME type. Defaults to `application/octet-stream`. */
+  contentType?: string;
+}
+
+/**
+ * Attachment metadata sent in `payload_json`.
+ * When editing, include existing attachments by `id` to keep them.
+ */
+export interface AttachmentPayload {
+  id: string | number;
+  filename?: string;
+  description?: string;
+  flags?: MessageAttachmentFlags;
+}
+
+/** Result of a standalone upload via `ApiClient.uploadAttachments`. */
+export interface UploadedAttachment {
+  id: string | number;
+  filename: string;
+  upload_filename: string;
+  file_size?: number;
+}
+
 export interface CreateMessagePayload {
   content?: string;
   embeds?: Embed[];
@@ -471,12 +508,19 @@ export interface CreateMessagePayload {
   tts?: boolean;
   message_reference?: MessageRef;
   sticker_ids?: string[];
+  attachments?: AttachmentPayload[];
+  /** Files to upload — sends the request as `multipart/form-data`. */
+  files?: FileAttachment[];
 }
 
 export interface EditMessagePayload {
   content?: string;
   embeds?: Embed[];
   flags?: number;
+  /** Attachments to keep. Omit to leave existing attachments untouched. */
+  attachments?: AttachmentPayload[];
+  /** New files to upload — sends the request as `multipart/form-data`. */
+  files?: FileAttachment[];
 }
 
 export interface CreateGuildPayload {
@@ -602,6 +646,9 @@ export interface ExecuteWebhookPayload {
   avatar_url?: string;
   tts?: boolean;
   embeds?: Embed[];
+  attachments?: AttachmentPayload[];
+  /** Files to upload — sends the request as `multipart/form-data`. */
+  files?: FileAttachment[];
 }
 
 export interface UpdateCurrentUserPayload {
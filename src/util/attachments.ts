@@ -0,0 +1,68 @@
+/**
+ * Multipart helpers — turn `FileAttachment`s into a `multipart/form-data` body.
+ *
+ * Files are sent as `files[n]` parts and the JSON payload as `payload_json`,
+ * with a matching `attachments` entry (`id: n`) carrying filename,
+ * description and flags for each new file.
+ */
+import { readFile } from "node:fs/promises";
+import { MessageAttachmentFlags } from "../types/enums.js";
+import type { AttachmentPayload, FileAttachment } from "../types/models.js";
+
+/** Returns `true` if the payload carries files and must be sent as multipart. */
+export function hasFiles(payload: { files?: FileAttachment[] } | undefined): boolean {
+  return !!payload?.files && payload.files.length > 0;
+}
+
+/** Read any supported `FileAttachment.data` shape into a `Blob`. */
+export async function resolveFileData(file: FileAttachment): Promise<Blob> {
+  const type = file.contentType ?? "application/octet-stream";
+  const data = file.data;
+
+  if (typeof data === "string") {
+    return new Blob([await readFile(data)], { type });
+  }
+  if (data instanceof Blob) {
+    return data.type || !file.contentType ? data : new Blob([data], { type });
+  }
+  if (data instanceof Uint8Array) {
+    return new Blob([data], { type });
+  }
+
+  // Readable stream — drain it into memory so the body can be retried.
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of data as AsyncIterable<Uint8Array | string>) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return new Blob(chunks, { type });
+}
+
+/**
+ * Build a `FormData` body from a JSON payload containing `files`.
+ * The `files` key is removed from the JSON part.
+ */
+export async function buildMultipartBody<T extends { files?: FileAttachment[]; attachments?: AttachmentPayload[] }>(
+  payload: T,
+): Promise<FormData> {
+  const { files = [], ...rest } = payload;
+  const form = new FormData();
+
+  const attachments: AttachmentPayload[] = [...(rest.attachments ?? [])];
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i]!;
+    form.append(`files[${i}]`, await resolveFileData(file), file.name);
+    attachments.push({
+      id: i,
+      filename: file.name,
+      description: file.description,
+      flags: file.spoiler ? MessageAttachmentFlags.IsSpoiler : undefined,
+    });
+  }
+
+  const json: Record<string, unknown> = { ...rest, attachments };
+  for (const [k, v] of Object.entries(json)) {
+    if (v === undefined) delete json[k];
+  }
+  form.append("payload_json", JSON.stringify(json));
+  return form;
+}
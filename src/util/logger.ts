@@ -39,3 +39,13 @@ export function createConsoleLogger(level: "debug" | "info" | "warn" | "error" =
     },
   };
 }
+
+/** Wrap a logger so every message starts with `prefix` (e.g. `"[Shard 3] "`). */
+export function prefixLogger(logger: Logger, prefix: string): Logger {
+  return {
+    debug: (msg, ...args) => logger.debug(prefix + msg, ...args),
+    info: (msg, ...args) => logger.info(prefix + msg, ...args),
+    warn: (msg, ...args) => logger.warn(prefix + msg, ...args),
+    error: (msg, ...args) => logger.error(prefix + msg, ...args),
+  };
+}